@@ -77,7 +77,7 @@ const App: React.FC = () => {
 
           {currentView === AppView.CHAT && <ChatView />}
           {currentView === AppView.IMAGE_GEN && <ImageGenView />}
-          {currentView === AppView.LIVE && <LiveView />}
+          {currentView === AppView.LIVE && <LiveView onContinueInChat={() => setCurrentView(AppView.CHAT)} />}
         </div>
       </main>
     </div>
@@ -0,0 +1,102 @@
+import React from 'react';
+import { X, FileText, FileAudio, FileVideo, File as FileIcon, Loader2, CloudUpload, Clock } from 'lucide-react';
+import { ChatAttachment } from '../types';
+import { getAttachmentKind, formatFileSize, isAttachmentExpired } from '../utils/fileUtils';
+
+interface AttachmentListProps {
+  attachments: ChatAttachment[];
+  uploadingIds?: Set<string>;
+  onRemove?: (id: string) => void;
+  sentAt?: number; // Send time of the message, for older uploads that have no recorded expiry
+  // Message bubbles show full media players; the composer shows compact chips
+  variant?: 'composer' | 'message';
+}
+
+const KIND_ICONS = {
+  pdf: FileText,
+  text: FileText,
+  audio: FileAudio,
+  video: FileVideo,
+  image: FileIcon,
+};
+
+const AttachmentList: React.FC<AttachmentListProps> = ({
+  attachments,
+  uploadingIds,
+  onRemove,
+  sentAt,
+  variant = 'message'
+}) => {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-2 ${variant === 'message' ? 'mb-3' : 'mb-2'}`}>
+      {attachments.map(attachment => {
+        const kind = getAttachmentKind(attachment.mimeType);
+        const isUploading = uploadingIds?.has(attachment.id);
+        const isExpired = isAttachmentExpired(attachment, sentAt);
+        // Imported conversations keep only the description of uploaded files
+        const isMissing = variant === 'message' && !attachment.data && !attachment.fileUri;
+        const unavailableReason = isExpired
+          ? 'Uploaded files are kept for 48 hours. This one has expired and is no longer sent to the model.'
+          : isMissing ? "This file wasn't included when the conversation was imported." : undefined;
+
+        if (variant === 'message' && attachment.data) {
+          if (kind === 'image') {
+            return <img key={attachment.id} src={attachment.data} alt={attachment.name} className="max-w-full rounded-lg border border-white/20" />;
+          }
+          if (kind === 'audio') {
+            return <audio key={attachment.id} src={attachment.data} controls className="max-w-full" />;
+          }
+          if (kind === 'video') {
+            return <video key={attachment.id} src={attachment.data} controls className="max-w-full max-h-64 rounded-lg" />;
+          }
+        }
+
+        const Icon = KIND_ICONS[kind];
+        return (
+          <div
+            key={attachment.id}
+            className={`flex items-center gap-2 p-2 rounded-lg max-w-[16rem] ${
+              variant === 'composer' ? 'bg-zinc-800' : 'bg-black/20 border border-white/10'
+            } ${unavailableReason ? 'opacity-60' : ''}`}
+            title={unavailableReason}
+          >
+            {kind === 'image' && attachment.data ? (
+              <img src={attachment.data} alt="" className="w-10 h-10 rounded object-cover shrink-0" />
+            ) : (
+              <div className="w-10 h-10 rounded bg-zinc-900 flex items-center justify-center shrink-0">
+                {isUploading ? <Loader2 size={18} className="animate-spin text-indigo-400" /> : <Icon size={18} className="text-zinc-400" />}
+              </div>
+            )}
+            <div className="min-w-0">
+              <p className="text-xs text-zinc-200 truncate">{attachment.name}</p>
+              <p className="text-[10px] text-zinc-500 flex items-center gap-1">
+                {formatFileSize(attachment.size)}
+                {attachment.fileUri && !isExpired && <CloudUpload size={10} />}
+                {unavailableReason && (
+                  <>
+                    <Clock size={10} className="text-amber-400" />
+                    <span className="text-amber-400">{isExpired ? 'expired' : 'unavailable'}</span>
+                  </>
+                )}
+                {isUploading && ' · uploading'}
+              </p>
+            </div>
+            {onRemove && (
+              <button
+                onClick={() => onRemove(attachment.id)}
+                className="text-zinc-500 hover:text-white shrink-0"
+                title="Remove"
+              >
+                <X size={14} />
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default AttachmentList;
@@ -0,0 +1,211 @@
+import React from 'react';
+import { X, RotateCcw } from 'lucide-react';
+import { ChatSettings } from '../types';
+import { CHAT_MODELS, DEFAULT_CHAT_SETTINGS } from '../services/geminiService';
+import SchemaEditor from './SchemaEditor';
+
+interface ChatSettingsDrawerProps {
+  settings: ChatSettings;
+  onChange: (settings: ChatSettings) => void;
+  onClose: () => void;
+}
+
+interface SliderFieldProps {
+  label: string;
+  value: number | undefined;
+  min: number;
+  max: number;
+  step: number;
+  fallback: number; // Where the slider starts when the field is switched on
+  onChange: (value: number | undefined) => void;
+}
+
+// A slider that can be left unset, in which case the model's default applies
+const SliderField: React.FC<SliderFieldProps> = ({ label, value, min, max, step, fallback, onChange }) => (
+  <div className="space-y-2">
+    <div className="flex items-center justify-between">
+      <label className="text-xs font-medium text-zinc-400 uppercase tracking-wider">{label}</label>
+      <label className="flex items-center gap-2 text-xs text-zinc-500">
+        <input
+          type="checkbox"
+          checked={value === undefined}
+          onChange={(e) => onChange(e.target.checked ? undefined : fallback)}
+          className="accent-indigo-500"
+        />
+        Default
+      </label>
+    </div>
+    <div className="flex items-center gap-3">
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value ?? fallback}
+        disabled={value === undefined}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="flex-1 accent-indigo-500 disabled:opacity-40"
+      />
+      <span className="w-12 text-right text-sm tabular-nums text-zinc-300">{value ?? '–'}</span>
+    </div>
+  </div>
+);
+
+const ChatSettingsDrawer: React.FC<ChatSettingsDrawerProps> = ({ settings, onChange, onClose }) => {
+  const model = CHAT_MODELS.find(m => m.id === settings.model) || CHAT_MODELS[0];
+  const { min: minBudget, max: maxBudget } = model.thinkingBudget;
+  const thinkingMode = settings.thinkingBudget === undefined || settings.thinkingBudget === -1
+    ? 'dynamic'
+    : settings.thinkingBudget === 0 ? 'off' : 'custom';
+
+  const update = (changes: Partial<ChatSettings>) => onChange({ ...settings, ...changes });
+
+  const handleModelChange = (id: string) => {
+    const next = CHAT_MODELS.find(m => m.id === id) || CHAT_MODELS[0];
+    const budget = settings.thinkingBudget;
+    // Keep a fixed budget only if the new model accepts it
+    const keepBudget = budget === undefined || budget === -1
+      || (budget >= next.thinkingBudget.min && budget <= next.thinkingBudget.max);
+    update({ model: id, thinkingBudget: keepBudget ? budget : undefined });
+  };
+
+  const handleThinkingModeChange = (mode: string) => {
+    if (mode === 'dynamic') update({ thinkingBudget: undefined });
+    else if (mode === 'off') update({ thinkingBudget: 0 });
+    else update({ thinkingBudget: Math.max(minBudget, 1024) });
+  };
+
+  const handleMaxTokensChange = (value: string) => {
+    const tokens = parseInt(value, 10);
+    update({ maxOutputTokens: Number.isFinite(tokens) && tokens > 0 ? tokens : undefined });
+  };
+
+  return (
+    <div className="absolute inset-y-0 right-0 z-20 w-96 max-w-full flex flex-col bg-zinc-950 border-l border-zinc-800 shadow-2xl">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-800">
+        <h2 className="text-sm font-semibold text-white">Chat settings</h2>
+        <div className="flex gap-1">
+          <button
+            onClick={() => onChange(DEFAULT_CHAT_SETTINGS)}
+            className="p-1.5 rounded-lg text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors"
+            title="Reset to defaults"
+          >
+            <RotateCcw size={16} />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1.5 rounded-lg text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors"
+            title="Close settings"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-5">
+        <div className="space-y-2">
+          <label className="text-xs font-medium text-zinc-400 uppercase tracking-wider">Model</label>
+          <select
+            value={model.id}
+            onChange={(e) => handleModelChange(e.target.value)}
+            className="w-full bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-white outline-none focus:border-indigo-500"
+          >
+            {CHAT_MODELS.map(m => (
+              <option key={m.id} value={m.id}>{m.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-xs font-medium text-zinc-400 uppercase tracking-wider">System instruction</label>
+          <textarea
+            value={settings.systemInstruction || ''}
+            onChange={(e) => update({ systemInstruction: e.target.value || undefined })}
+            placeholder="e.g. You are a concise assistant. Answer in British English."
+            rows={5}
+            className="w-full bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-white placeholder-zinc-600 outline-none focus:border-indigo-500 resize-y"
+          />
+        </div>
+
+        <SliderField
+          label="Temperature"
+          value={settings.temperature}
+          min={0}
+          max={2}
+          step={0.05}
+          fallback={1}
+          onChange={(temperature) => update({ temperature })}
+        />
+
+        <SliderField
+          label="Top P"
+          value={settings.topP}
+          min={0}
+          max={1}
+          step={0.01}
+          fallback={0.95}
+          onChange={(topP) => update({ topP })}
+        />
+
+        <div className="space-y-2">
+          <label className="text-xs font-medium text-zinc-400 uppercase tracking-wider">Max output tokens</label>
+          <input
+            type="number"
+            min={1}
+            value={settings.maxOutputTokens ?? ''}
+            onChange={(e) => handleMaxTokensChange(e.target.value)}
+            placeholder="Model default"
+            className="w-full bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-white placeholder-zinc-600 outline-none focus:border-indigo-500"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-xs font-medium text-zinc-400 uppercase tracking-wider">Thinking</label>
+          <div className="flex bg-zinc-900 p-1 rounded-lg border border-zinc-800">
+            {(['dynamic', 'off', 'custom'] as const).map(mode => (
+              <button
+                key={mode}
+                onClick={() => handleThinkingModeChange(mode)}
+                disabled={mode === 'off' && minBudget > 0}
+                title={mode === 'off' && minBudget > 0 ? `${model.label} always thinks` : undefined}
+                className={`flex-1 py-1.5 rounded-md text-xs font-medium capitalize transition-colors disabled:text-zinc-700 disabled:cursor-not-allowed ${
+                  thinkingMode === mode ? 'bg-indigo-600 text-white' : 'text-zinc-400 hover:text-white'
+                }`}
+              >
+                {mode}
+              </button>
+            ))}
+          </div>
+          {thinkingMode === 'custom' && (
+            <div className="flex items-center gap-3">
+              <input
+                type="range"
+                min={Math.max(minBudget, 128)}
+                max={maxBudget}
+                step={128}
+                value={settings.thinkingBudget}
+                onChange={(e) => update({ thinkingBudget: Number(e.target.value) })}
+                className="flex-1 accent-indigo-500"
+              />
+              <span className="w-14 text-right text-sm tabular-nums text-zinc-300">{settings.thinkingBudget}</span>
+            </div>
+          )}
+          <p className="text-xs text-zinc-500">
+            {thinkingMode === 'dynamic'
+              ? 'The model decides how much to think for each request.'
+              : thinkingMode === 'off'
+                ? 'Faster replies, no reasoning step.'
+                : 'Upper bound on reasoning tokens per request.'}
+          </p>
+        </div>
+
+        <SchemaEditor
+          schema={settings.responseSchema}
+          onChange={(responseSchema) => update({ responseSchema })}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ChatSettingsDrawer;
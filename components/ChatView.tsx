@@ -1,23 +1,82 @@
-import React, { useState, useRef, useEffect } from 'react';
-import ReactMarkdown from 'react-markdown';
-import { Send, Image as ImageIcon, X, Bot, User, Loader2 } from 'lucide-react';
-import { ChatMessage } from '../types';
-import { generateText } from '../services/geminiService';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Send, Paperclip, Bot, User, Loader2, Square, Upload, SlidersHorizontal, AlertTriangle, Pencil, RefreshCw, ChevronLeft, ChevronRight, ClipboardCopy } from 'lucide-react';
+import { ChatAttachment, ChatMessage, ChatSettings, Conversation, ToolCallRecord } from '../types';
+import { isAbortError, CHAT_MODELS, DEFAULT_CHAT_SETTINGS, MAX_INLINE_ATTACHMENT_BYTES } from '../services/geminiService';
+import { provider } from '../services/providers';
+import { ConversationExportFormat, downloadConversation } from '../services/conversationExport';
+import {
+  listConversations,
+  saveConversation,
+  deleteConversation,
+  createConversation,
+  sortConversations,
+  deriveTitle,
+  getActiveConversationId,
+  setActiveConversationId,
+  DEFAULT_CONVERSATION_TITLE
+} from '../services/chatStore';
+import ConversationSidebar from './ConversationSidebar';
+import AttachmentList from './AttachmentList';
+import ToolCallList from './ToolCallList';
+import JsonTree from './JsonTree';
+import ChatSettingsDrawer from './ChatSettingsDrawer';
+import MessageContent from './MessageContent';
+import CopyButton from './CopyButton';
+import { blobToDataUri } from '../utils/imageUtils';
+import { ATTACHMENT_ACCEPT, resolveAttachmentMimeType } from '../utils/fileUtils';
+import { checkStructuredReply } from '../utils/jsonSchema';
+import { getThread, getSiblingGroups, getLatestLeafId } from '../utils/messageTree';
+import { copyText, copyRichText, getCopyableHtml } from '../utils/clipboard';
+
+// How often a reply is saved while it streams; it's saved in full once it ends
+const STREAMING_SAVE_INTERVAL_MS = 500;
+
+const createWelcomeMessage = (): ChatMessage => ({
+  id: 'welcome',
+  parentId: null,
+  role: 'model',
+  text: "Hello! I'm Gemini. I can help you with writing, analysis, or understanding images. How can I assist you today?",
+  timestamp: Date.now()
+});
 
 const ChatView: React.FC = () => {
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    {
-      id: 'welcome',
-      role: 'model',
-      text: "Hello! I'm Gemini. I can help you with writing, analysis, or understanding images. How can I assist you today?",
-      timestamp: Date.now()
-    }
-  ]);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  // Every message of the conversation, all branches included; `thread` is the one on screen
+  const [messages, setMessages] = useState<ChatMessage[]>(() => [createWelcomeMessage()]);
+  const [leafId, setLeafId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
   const [inputValue, setInputValue] = useState('');
-  const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const [pendingAttachments, setPendingAttachments] = useState<ChatAttachment[]>([]);
+  const [uploadingIds, setUploadingIds] = useState<Set<string>>(new Set());
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const messagesAreaRef = useRef<HTMLDivElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const streamingMsgIdRef = useRef<string | null>(null);
+  const saveTimerRef = useRef<number | null>(null);
+  // Mirrors of state read from effects and the unmount cleanup
+  const conversationsRef = useRef<Conversation[]>([]);
+  const activeIdRef = useRef<string | null>(null);
+  const messagesRef = useRef<ChatMessage[]>(messages);
+  const leafIdRef = useRef<string | null>(leafId);
+  conversationsRef.current = conversations;
+  activeIdRef.current = activeId;
+  messagesRef.current = messages;
+  leafIdRef.current = leafId;
+
+  const isBusy = isLoading || isStreaming;
+  const thread = useMemo(() => getThread(messages, leafId), [messages, leafId]);
+  const siblingGroups = useMemo(() => getSiblingGroups(messages), [messages]);
+  const activeConversation = conversations.find(conv => conv.id === activeId);
+  const settings = activeConversation?.settings ?? DEFAULT_CHAT_SETTINGS;
+  const modelLabel = CHAT_MODELS.find(m => m.id === settings.model)?.label ?? settings.model;
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -27,71 +86,492 @@ const ChatView: React.FC = () => {
     scrollToBottom();
   }, [messages]);
 
-  const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setSelectedImage(reader.result as string);
+  const persistConversation = (conversation: Conversation) => {
+    setConversations(prev => sortConversations([
+      conversation,
+      ...prev.filter(conv => conv.id !== conversation.id)
+    ]));
+    saveConversation(conversation).catch(err => console.error("Failed to save conversation", err));
+  };
+
+  const openConversation = (conversation: Conversation) => {
+    setActiveId(conversation.id);
+    setMessages(conversation.messages);
+    setLeafId(conversation.activeLeafId ?? null);
+    setEditingId(null);
+    setActiveConversationId(conversation.id);
+  };
+
+  const startNewConversation = () => {
+    const conversation = createConversation([createWelcomeMessage()]);
+    persistConversation(conversation);
+    openConversation(conversation);
+  };
+
+  // Restore the saved conversations and reopen the last active one
+  useEffect(() => {
+    let cancelled = false;
+
+    listConversations()
+      .then(list => {
+        if (cancelled) return;
+        const storedId = getActiveConversationId();
+        const active = list.find(conv => conv.id === storedId) || list[0];
+        setConversations(list);
+        if (active) {
+          openConversation(active);
+        } else {
+          startNewConversation();
+        }
+      })
+      .catch(err => {
+        console.error("Failed to load conversations", err);
+        if (!cancelled) startNewConversation();
+      });
+
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Writes the active conversation back if its messages or the branch on screen changed
+  const syncActiveConversation = () => {
+    const conversation = conversationsRef.current.find(conv => conv.id === activeIdRef.current);
+    const currentMessages = messagesRef.current;
+    const activeLeafId = leafIdRef.current ?? undefined;
+    if (!conversation || (conversation.messages === currentMessages && conversation.activeLeafId === activeLeafId)) return;
+
+    persistConversation({
+      ...conversation,
+      messages: currentMessages,
+      activeLeafId,
+      // Switching branches alone doesn't move the conversation up the list
+      updatedAt: conversation.messages === currentMessages ? conversation.updatedAt : Date.now(),
+      title: conversation.title === DEFAULT_CONVERSATION_TITLE ? deriveTitle(currentMessages) : conversation.title
+    });
+  };
+
+  // Save on every change, except that a streaming reply changes the messages on each
+  // chunk: while one is in flight, save at most every STREAMING_SAVE_INTERVAL_MS and
+  // once more as soon as it finishes or is stopped
+  useEffect(() => {
+    if (isStreaming) {
+      if (saveTimerRef.current === null) {
+        saveTimerRef.current = window.setTimeout(() => {
+          saveTimerRef.current = null;
+          syncActiveConversation();
+        }, STREAMING_SAVE_INTERVAL_MS);
+      }
+      return;
+    }
+
+    if (saveTimerRef.current !== null) {
+      window.clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    syncActiveConversation();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [messages, leafId, activeId, isStreaming]);
+
+  // Abort any in-flight reply when the view unmounts, keeping the partial text
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+      if (saveTimerRef.current !== null) window.clearTimeout(saveTimerRef.current);
+
+      const streamingMsgId = streamingMsgIdRef.current;
+      const conversation = conversationsRef.current.find(conv => conv.id === activeIdRef.current);
+      if (streamingMsgId && conversation) {
+        saveConversation({
+          ...conversation,
+          messages: messagesRef.current.map(msg => msg.id === streamingMsgId ? { ...msg, isTruncated: true } : msg),
+          updatedAt: Date.now()
+        }).catch(err => console.error("Failed to save conversation", err));
+      }
+    };
+  }, []);
+
+  // Stops any in-flight reply before switching away, saving its partial text
+  const leaveActiveConversation = () => {
+    const streamingMsgId = streamingMsgIdRef.current;
+    handleStop();
+
+    const conversation = conversations.find(conv => conv.id === activeId);
+    if (streamingMsgId && conversation) {
+      persistConversation({
+        ...conversation,
+        messages: messages.map(msg => msg.id === streamingMsgId ? { ...msg, isTruncated: true } : msg),
+        updatedAt: Date.now()
+      });
+    }
+  };
+
+  const handleSelectConversation = (id: string) => {
+    if (id === activeId) return;
+    const conversation = conversations.find(conv => conv.id === id);
+    if (!conversation) return;
+    leaveActiveConversation();
+    openConversation(conversation);
+  };
+
+  const handleCreateConversation = () => {
+    // Reuse the current chat if nothing has been asked in it yet
+    if (activeId && !messages.some(msg => msg.role === 'user')) return;
+    leaveActiveConversation();
+    startNewConversation();
+  };
+
+  const handleRenameConversation = (id: string, title: string) => {
+    const conversation = conversations.find(conv => conv.id === id);
+    if (conversation) persistConversation({ ...conversation, title });
+  };
+
+  const handleTogglePin = (id: string) => {
+    const conversation = conversations.find(conv => conv.id === id);
+    if (conversation) persistConversation({ ...conversation, pinned: !conversation.pinned });
+  };
+
+  const handleExportConversation = (id: string, format: ConversationExportFormat) => {
+    const conversation = conversations.find(conv => conv.id === id);
+    if (!conversation) return;
+    downloadConversation(conversation, format).catch(err => console.error("Failed to export conversation", err));
+  };
+
+  const handleImportConversation = (conversation: Conversation) => {
+    leaveActiveConversation();
+    persistConversation(conversation);
+    openConversation(conversation);
+  };
+
+  const handleSettingsChange = (next: ChatSettings) => {
+    if (activeConversation) persistConversation({ ...activeConversation, settings: next });
+  };
+
+  const handleDeleteConversation = (id: string) => {
+    const remaining = conversations.filter(conv => conv.id !== id);
+    setConversations(remaining);
+    deleteConversation(id).catch(err => console.error("Failed to delete conversation", err));
+
+    if (id === activeId) {
+      handleStop();
+      if (remaining.length > 0) {
+        openConversation(remaining[0]);
+      } else {
+        startNewConversation();
+      }
+    }
+  };
+
+  const setUploading = (id: string, uploading: boolean) => {
+    setUploadingIds(prev => {
+      const next = new Set(prev);
+      if (uploading) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  // Small files are embedded as data URIs; large ones go through the Files API
+  const addFiles = async (files: File[]) => {
+    setAttachmentError(null);
+
+    for (const file of files) {
+      const mimeType = resolveAttachmentMimeType(file);
+      if (!mimeType) {
+        setAttachmentError(`${file.name} isn't a supported file type.`);
+        continue;
+      }
+
+      const attachment: ChatAttachment = {
+        id: `att-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        name: file.name,
+        mimeType,
+        size: file.size
       };
-      reader.readAsDataURL(file);
+
+      if (file.size <= MAX_INLINE_ATTACHMENT_BYTES) {
+        try {
+          attachment.data = await blobToDataUri(file);
+          setPendingAttachments(prev => [...prev, attachment]);
+        } catch (err) {
+          console.error("Failed to read file", err);
+          setAttachmentError(`Couldn't read ${file.name}.`);
+        }
+        continue;
+      }
+
+      setPendingAttachments(prev => [...prev, attachment]);
+      setUploading(attachment.id, true);
+      provider.uploadAttachment(file, mimeType)
+        .then(({ uri, expiresAt }) => {
+          setPendingAttachments(prev => prev.map(att =>
+            att.id === attachment.id ? { ...att, fileUri: uri, fileExpiresAt: expiresAt } : att
+          ));
+        })
+        .catch(() => {
+          setPendingAttachments(prev => prev.filter(att => att.id !== attachment.id));
+          setAttachmentError(`Upload failed for ${file.name}.`);
+        })
+        .finally(() => setUploading(attachment.id, false));
     }
   };
 
-  const handleSendMessage = async () => {
-    if ((!inputValue.trim() && !selectedImage) || isLoading) return;
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    addFiles(files);
+  };
 
-    const newUserMsg: ChatMessage = {
-      id: Date.now().toString(),
-      role: 'user',
-      text: inputValue,
-      image: selectedImage || undefined,
-      timestamp: Date.now()
-    };
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    addFiles(files);
+  };
 
-    setMessages(prev => [...prev, newUserMsg]);
-    setInputValue('');
-    setSelectedImage(null);
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Ignore leave events fired when moving between child elements
+    if (e.currentTarget.contains(e.relatedTarget as Node)) return;
+    setIsDragging(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleRemoveAttachment = (id: string) => {
+    setPendingAttachments(prev => prev.filter(att => att.id !== id));
+  };
+
+  const hasContent = !!inputValue.trim() || pendingAttachments.length > 0;
+  const canSend = hasContent && uploadingIds.size === 0;
+
+  /**
+   * Streams a reply to the last message of `history`, adding it as that message's child.
+   */
+  const generateReply = async (history: ChatMessage[]) => {
+    const parentId = history[history.length - 1].id;
     setIsLoading(true);
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const modelMsgId = crypto.randomUUID();
+    let streamStarted = false;
+
     try {
-      // Prepare image data if exists. Note: selectedImage is a full Data URI, we need to strip prefix for API if doing manual processing,
-      // but the service helper can handle it if we extract the base64 part.
-      let base64Data = undefined;
-      let mimeType = undefined;
-      
-      if (newUserMsg.image) {
-        // Data URI format: data:[<mime type>][;charset=<charset>][;base64],<encoded data>
-        const matches = newUserMsg.image.match(/^data:(.+);base64,(.+)$/);
-        if (matches && matches.length === 3) {
-            mimeType = matches[1];
-            base64Data = matches[2];
+      let responseText = '';
+      let toolCalls: ToolCallRecord[] = [];
+
+      for await (const event of provider.streamChatResponse(history, settings, controller.signal)) {
+        if (controller.signal.aborted) break;
+
+        if (event.type === 'text') {
+          responseText += event.text;
+        } else if (event.type === 'tool-call') {
+          toolCalls = [...toolCalls, event.call];
+        } else {
+          toolCalls = toolCalls.map(call => call.id === event.call.id ? event.call : call);
+        }
+
+        const text = responseText;
+        const calls = toolCalls.length > 0 ? toolCalls : undefined;
+        if (!streamStarted) {
+          // First event: swap the "Thinking..." indicator for the partial reply
+          streamStarted = true;
+          streamingMsgIdRef.current = modelMsgId;
+          setIsLoading(false);
+          setIsStreaming(true);
+          setMessages(prev => [...prev, {
+            id: modelMsgId,
+            parentId,
+            role: 'model',
+            text,
+            toolCalls: calls,
+            timestamp: Date.now()
+          }]);
+          setLeafId(modelMsgId);
+        } else {
+          setMessages(prev => prev.map(msg => msg.id === modelMsgId ? { ...msg, text, toolCalls: calls } : msg));
         }
       }
 
-      const responseText = await generateText(newUserMsg.text, base64Data, mimeType);
+      if (streamStarted && !controller.signal.aborted && settings.responseSchema) {
+        const structured = checkStructuredReply(responseText, settings.responseSchema);
+        setMessages(prev => prev.map(msg => msg.id === modelMsgId ? { ...msg, structured } : msg));
+      }
 
-      const newModelMsg: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'model',
-        text: responseText,
-        timestamp: Date.now()
-      };
-      setMessages(prev => [...prev, newModelMsg]);
+      if (!streamStarted && !controller.signal.aborted) {
+        setMessages(prev => [...prev, {
+          id: modelMsgId,
+          parentId,
+          role: 'model',
+          text: "No response text generated.",
+          timestamp: Date.now()
+        }]);
+        setLeafId(modelMsgId);
+      }
     } catch (error) {
+      // A stopped turn has already been finalized by handleStop
+      if (isAbortError(error, controller.signal)) return;
+
       const errorMsg: ChatMessage = {
-        id: (Date.now() + 1).toString(),
+        id: crypto.randomUUID(),
+        parentId,
         role: 'model',
         text: "I encountered an error processing your request. Please try again.",
         timestamp: Date.now(),
         isError: true
       };
       setMessages(prev => [...prev, errorMsg]);
+      setLeafId(errorMsg.id);
     } finally {
-      setIsLoading(false);
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        streamingMsgIdRef.current = null;
+        setIsLoading(false);
+        setIsStreaming(false);
+      }
+    }
+  };
+
+  const handleSendMessage = async () => {
+    if (!canSend || isBusy) return;
+
+    const newUserMsg: ChatMessage = {
+      id: crypto.randomUUID(),
+      parentId: thread.length > 0 ? thread[thread.length - 1].id : null,
+      role: 'user',
+      text: inputValue,
+      attachments: pendingAttachments.length > 0 ? pendingAttachments : undefined,
+      timestamp: Date.now()
+    };
+
+    setMessages(prev => [...prev, newUserMsg]);
+    setLeafId(newUserMsg.id);
+    setInputValue('');
+    setPendingAttachments([]);
+    setAttachmentError(null);
+    await generateReply([...thread, newUserMsg]);
+  };
+
+  const startEditing = (message: ChatMessage) => {
+    setEditingId(message.id);
+    setEditText(message.text);
+  };
+
+  // The edited prompt becomes a sibling of the original, so the old branch is kept
+  const handleSubmitEdit = async (message: ChatMessage) => {
+    const index = thread.findIndex(msg => msg.id === message.id);
+    if (index < 0 || isBusy || (!editText.trim() && !message.attachments?.length)) return;
+
+    const editedMsg: ChatMessage = {
+      id: crypto.randomUUID(),
+      parentId: index > 0 ? thread[index - 1].id : null,
+      role: 'user',
+      text: editText,
+      image: message.image,
+      attachments: message.attachments,
+      timestamp: Date.now()
+    };
+
+    setMessages(prev => [...prev, editedMsg]);
+    setLeafId(editedMsg.id);
+    setEditingId(null);
+    await generateReply([...thread.slice(0, index), editedMsg]);
+  };
+
+  const handleRegenerate = async (message: ChatMessage) => {
+    const index = thread.findIndex(msg => msg.id === message.id);
+    if (index < 1 || isBusy) return;
+
+    const history = thread.slice(0, index);
+    setLeafId(history[history.length - 1].id);
+    await generateReply(history);
+  };
+
+  const handleSwitchBranch = (message: ChatMessage, offset: number) => {
+    const siblings = siblingGroups.get(message.id) || [];
+    const target = siblings[siblings.findIndex(msg => msg.id === message.id) + offset];
+    if (!target || isBusy) return;
+    setEditingId(null);
+    setLeafId(getLatestLeafId(messages, target.id));
+  };
+
+  const handleStop = () => {
+    const controller = abortControllerRef.current;
+    if (!controller) return;
+
+    controller.abort();
+    abortControllerRef.current = null;
+
+    // Keep whatever was streamed so far, flagged as cut short
+    const streamingMsgId = streamingMsgIdRef.current;
+    streamingMsgIdRef.current = null;
+    if (streamingMsgId) {
+      setMessages(prev => prev.map(msg => msg.id === streamingMsgId ? { ...msg, isTruncated: true } : msg));
+    } else {
+      // Stopped before a regenerated reply arrived: go back to the reply it was replacing
+      setLeafId(prev => prev && getLatestLeafId(messagesRef.current, prev));
+    }
+
+    setIsLoading(false);
+    setIsStreaming(false);
+  };
+
+  // Copies the rendered Markdown so formatting survives pasting into docs
+  const handleCopyRich = (message: ChatMessage) => {
+    const rendered = messagesAreaRef.current?.querySelector(`[data-message-id="${CSS.escape(message.id)}"]`);
+    return rendered ? copyRichText(getCopyableHtml(rendered), message.text) : copyText(message.text);
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent, message: ChatMessage) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSubmitEdit(message);
+    } else if (e.key === 'Escape') {
+      setEditingId(null);
     }
   };
 
+  // "‹ 2/3 ›" switcher for messages that have been edited or regenerated
+  const renderBranchControls = (message: ChatMessage) => {
+    const siblings = siblingGroups.get(message.id) || [];
+    if (siblings.length < 2) return null;
+    const position = siblings.findIndex(msg => msg.id === message.id);
+
+    return (
+      <div className="flex items-center">
+        <button
+          onClick={() => handleSwitchBranch(message, -1)}
+          disabled={isBusy || position === 0}
+          className="p-0.5 rounded hover:text-white disabled:text-zinc-700 disabled:cursor-not-allowed transition-colors"
+          title="Previous version"
+        >
+          <ChevronLeft size={14} />
+        </button>
+        <span className="tabular-nums">{position + 1}/{siblings.length}</span>
+        <button
+          onClick={() => handleSwitchBranch(message, 1)}
+          disabled={isBusy || position === siblings.length - 1}
+          className="p-0.5 rounded hover:text-white disabled:text-zinc-700 disabled:cursor-not-allowed transition-colors"
+          title="Next version"
+        >
+          <ChevronRight size={14} />
+        </button>
+      </div>
+    );
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -100,108 +580,227 @@ const ChatView: React.FC = () => {
   };
 
   return (
-    <div className="flex flex-col h-full bg-zinc-900/50 rounded-2xl border border-zinc-800 backdrop-blur-sm overflow-hidden">
-      {/* Messages Area */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-6">
-        {messages.map((msg) => (
-          <div
-            key={msg.id}
-            className={`flex gap-3 ${msg.role === 'user' ? 'flex-row-reverse' : 'flex-row'}`}
-          >
-            <div className={`w-8 h-8 rounded-full flex items-center justify-center shrink-0 ${
-              msg.role === 'user' ? 'bg-indigo-600' : 'bg-emerald-600'
-            }`}>
-              {msg.role === 'user' ? <User size={16} /> : <Bot size={16} />}
-            </div>
-            
-            <div className={`flex flex-col max-w-[80%] space-y-2`}>
-              <div className={`p-4 rounded-2xl ${
-                msg.role === 'user' 
-                  ? 'bg-indigo-600 text-white rounded-tr-none' 
-                  : 'bg-zinc-800 text-zinc-100 rounded-tl-none border border-zinc-700'
+    <div className="flex h-full gap-4">
+      <ConversationSidebar
+        conversations={conversations}
+        activeId={activeId}
+        onSelect={handleSelectConversation}
+        onCreate={handleCreateConversation}
+        onRename={handleRenameConversation}
+        onTogglePin={handleTogglePin}
+        onDelete={handleDeleteConversation}
+        onExport={handleExportConversation}
+        onImport={handleImportConversation}
+      />
+      <div
+        className="relative flex-1 min-w-0 flex flex-col h-full bg-zinc-900/50 rounded-2xl border border-zinc-800 backdrop-blur-sm overflow-hidden"
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+      >
+        {isDragging && (
+          <div className="absolute inset-0 z-10 flex flex-col items-center justify-center gap-2 bg-zinc-950/80 border-2 border-dashed border-indigo-500 rounded-2xl pointer-events-none">
+            <Upload className="w-10 h-10 text-indigo-400" />
+            <p className="text-zinc-300 text-sm">Drop files to attach</p>
+          </div>
+        )}
+        {showSettings && (
+          <ChatSettingsDrawer
+            settings={settings}
+            onChange={handleSettingsChange}
+            onClose={() => setShowSettings(false)}
+          />
+        )}
+        {/* Messages Area */}
+        <div ref={messagesAreaRef} className="flex-1 overflow-y-auto p-4 space-y-6">
+          {thread.map((msg, index) => (
+            <div
+              key={msg.id}
+              className={`group flex gap-3 ${msg.role === 'user' ? 'flex-row-reverse' : 'flex-row'}`}
+            >
+              <div className={`w-8 h-8 rounded-full flex items-center justify-center shrink-0 ${
+                msg.role === 'user' ? 'bg-indigo-600' : 'bg-emerald-600'
               }`}>
-                {msg.image && (
-                  <img src={msg.image} alt="User upload" className="max-w-full rounded-lg mb-3 border border-white/20" />
-                )}
-                {msg.isError ? (
-                  <span className="text-red-300">{msg.text}</span>
-                ) : (
-                  <div className="prose prose-invert prose-sm max-w-none">
-                    <ReactMarkdown>{msg.text}</ReactMarkdown>
+                {msg.role === 'user' ? <User size={16} /> : <Bot size={16} />}
+              </div>
+            
+              <div className={`flex flex-col max-w-[80%] space-y-2`}>
+                <div className={`p-4 rounded-2xl ${
+                  msg.role === 'user' 
+                    ? 'bg-indigo-600 text-white rounded-tr-none' 
+                    : 'bg-zinc-800 text-zinc-100 rounded-tl-none border border-zinc-700'
+                }`}>
+                  {msg.image && (
+                    <img src={msg.image} alt="User upload" className="max-w-full rounded-lg mb-3 border border-white/20" />
+                  )}
+                  {msg.attachments && <AttachmentList attachments={msg.attachments} sentAt={msg.timestamp} />}
+                  {msg.toolCalls && <ToolCallList calls={msg.toolCalls} />}
+                  {editingId === msg.id ? (
+                    <div className="space-y-2">
+                      <textarea
+                        value={editText}
+                        onChange={(e) => setEditText(e.target.value)}
+                        onKeyDown={(e) => handleEditKeyDown(e, msg)}
+                        autoFocus
+                        rows={3}
+                        className="w-full min-w-[16rem] bg-indigo-700/60 rounded-lg p-2 text-white placeholder-indigo-200 outline-none resize-y"
+                      />
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => setEditingId(null)}
+                          className="px-3 py-1 rounded-lg text-xs text-indigo-100 hover:bg-indigo-500 transition-colors"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={() => handleSubmitEdit(msg)}
+                          disabled={isBusy}
+                          className="px-3 py-1 rounded-lg text-xs font-medium bg-white text-indigo-700 hover:bg-indigo-50 disabled:opacity-50 transition-colors"
+                        >
+                          Send
+                        </button>
+                      </div>
+                    </div>
+                  ) : msg.isError ? (
+                    <span className="text-red-300">{msg.text}</span>
+                  ) : msg.structured ? (
+                    <div className="space-y-2">
+                      {msg.structured.value !== undefined ? (
+                        <JsonTree value={msg.structured.value} fileName={`gemini-response-${msg.timestamp}.json`} />
+                      ) : (
+                        <pre className="p-2 rounded bg-zinc-950 text-xs text-zinc-300 overflow-x-auto">{msg.text}</pre>
+                      )}
+                      {msg.structured.errors.length > 0 && (
+                        <ul className="space-y-1 text-xs text-red-300">
+                          {msg.structured.errors.map((error, index) => (
+                            <li key={index} className="flex gap-2">
+                              <AlertTriangle size={14} className="shrink-0 mt-px text-red-400" />
+                              <span className="font-mono break-all">{error}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  ) : (
+                    <MessageContent text={msg.text} messageId={msg.id} />
+                  )}
+                  {msg.isTruncated && (
+                    <span className="block mt-2 text-xs italic text-zinc-500">Response stopped</span>
+                  )}
+                </div>
+                <div className={`flex items-center gap-2 text-xs text-zinc-500 ${msg.role === 'user' ? 'flex-row-reverse' : ''}`}>
+                  <span>{new Date(msg.timestamp).toLocaleTimeString()}</span>
+                  {renderBranchControls(msg)}
+                  <div className="flex items-center opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                    <CopyButton
+                      onCopy={() => copyText(msg.text)}
+                      title="Copy text"
+                      className="p-1 rounded hover:text-white hover:bg-zinc-800 transition-colors"
+                    />
+                    <CopyButton
+                      onCopy={() => handleCopyRich(msg)}
+                      title="Copy as rich text"
+                      icon={ClipboardCopy}
+                      className="p-1 rounded hover:text-white hover:bg-zinc-800 transition-colors"
+                    />
                   </div>
-                )}
+                  {!isBusy && editingId !== msg.id && (msg.role === 'user' || index > 0) && (
+                    <button
+                      onClick={() => msg.role === 'user' ? startEditing(msg) : handleRegenerate(msg)}
+                      className="p-1 rounded opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-white hover:bg-zinc-800 transition-all"
+                      title={msg.role === 'user' ? 'Edit message' : 'Regenerate response'}
+                    >
+                      {msg.role === 'user' ? <Pencil size={14} /> : <RefreshCw size={14} />}
+                    </button>
+                  )}
+                </div>
               </div>
-              <span className={`text-xs text-zinc-500 ${msg.role === 'user' ? 'text-right' : 'text-left'}`}>
-                {new Date(msg.timestamp).toLocaleTimeString()}
-              </span>
             </div>
-          </div>
-        ))}
-        {isLoading && (
-          <div className="flex gap-3">
-             <div className="w-8 h-8 rounded-full bg-emerald-600 flex items-center justify-center shrink-0">
-               <Bot size={16} />
-             </div>
-             <div className="bg-zinc-800 p-4 rounded-2xl rounded-tl-none border border-zinc-700 flex items-center">
-               <Loader2 className="w-5 h-5 animate-spin text-emerald-400" />
-               <span className="ml-2 text-zinc-400 text-sm">Thinking...</span>
-             </div>
-          </div>
-        )}
-        <div ref={messagesEndRef} />
-      </div>
+          ))}
+          {isLoading && (
+            <div className="flex gap-3">
+               <div className="w-8 h-8 rounded-full bg-emerald-600 flex items-center justify-center shrink-0">
+                 <Bot size={16} />
+               </div>
+               <div className="bg-zinc-800 p-4 rounded-2xl rounded-tl-none border border-zinc-700 flex items-center">
+                 <Loader2 className="w-5 h-5 animate-spin text-emerald-400" />
+                 <span className="ml-2 text-zinc-400 text-sm">Thinking...</span>
+               </div>
+            </div>
+          )}
+          <div ref={messagesEndRef} />
+        </div>
 
-      {/* Input Area */}
-      <div className="p-4 bg-zinc-900 border-t border-zinc-800">
-        {selectedImage && (
-          <div className="flex items-center gap-2 mb-2 p-2 bg-zinc-800 rounded-lg w-fit">
-            <span className="text-xs text-zinc-400">Image attached</span>
+        {/* Input Area */}
+        <div className="p-4 bg-zinc-900 border-t border-zinc-800">
+          <AttachmentList
+            attachments={pendingAttachments}
+            uploadingIds={uploadingIds}
+            onRemove={handleRemoveAttachment}
+            variant="composer"
+          />
+          {attachmentError && <p className="mb-2 text-xs text-red-400">{attachmentError}</p>}
+        
+          <div className="flex items-end gap-2 bg-zinc-950 p-2 rounded-xl border border-zinc-800 focus-within:border-indigo-500 transition-colors">
+            <input 
+              type="file" 
+              accept={ATTACHMENT_ACCEPT}
+              multiple
+              className="hidden" 
+              ref={fileInputRef}
+              onChange={handleFileSelect}
+            />
             <button 
-              onClick={() => setSelectedImage(null)}
-              className="text-zinc-500 hover:text-white"
+              onClick={() => fileInputRef.current?.click()}
+              className="p-2 text-zinc-400 hover:text-indigo-400 hover:bg-zinc-800 rounded-lg transition-colors"
+              title="Attach files"
             >
-              <X size={14} />
+              <Paperclip size={20} />
+            </button>
+            <button
+              onClick={() => setShowSettings(prev => !prev)}
+              className={`p-2 rounded-lg transition-colors hover:bg-zinc-800 ${
+                showSettings ? 'text-indigo-400' : 'text-zinc-400 hover:text-indigo-400'
+              }`}
+              title={`Chat settings (${modelLabel})`}
+            >
+              <SlidersHorizontal size={20} />
             </button>
-          </div>
-        )}
-        
-        <div className="flex items-end gap-2 bg-zinc-950 p-2 rounded-xl border border-zinc-800 focus-within:border-indigo-500 transition-colors">
-          <input 
-            type="file" 
-            accept="image/*" 
-            className="hidden" 
-            ref={fileInputRef}
-            onChange={handleImageSelect}
-          />
-          <button 
-            onClick={() => fileInputRef.current?.click()}
-            className="p-2 text-zinc-400 hover:text-indigo-400 hover:bg-zinc-800 rounded-lg transition-colors"
-            title="Upload Image"
-          >
-            <ImageIcon size={20} />
-          </button>
           
-          <textarea
-            value={inputValue}
-            onChange={(e) => setInputValue(e.target.value)}
-            onKeyDown={handleKeyDown}
-            placeholder="Ask Gemini anything..."
-            className="flex-1 bg-transparent text-white placeholder-zinc-500 resize-none outline-none py-2 max-h-32"
-            rows={1}
-            style={{ minHeight: '40px' }}
-          />
+            <textarea
+              value={inputValue}
+              onChange={(e) => setInputValue(e.target.value)}
+              onKeyDown={handleKeyDown}
+              onPaste={handlePaste}
+              placeholder="Ask Gemini anything..."
+              className="flex-1 bg-transparent text-white placeholder-zinc-500 resize-none outline-none py-2 max-h-32"
+              rows={1}
+              style={{ minHeight: '40px' }}
+            />
           
-          <button 
-            onClick={handleSendMessage}
-            disabled={(!inputValue.trim() && !selectedImage) || isLoading}
-            className={`p-2 rounded-lg transition-all ${
-              (!inputValue.trim() && !selectedImage) || isLoading
-                ? 'bg-zinc-800 text-zinc-600 cursor-not-allowed'
-                : 'bg-indigo-600 text-white hover:bg-indigo-500 shadow-lg shadow-indigo-500/20'
-            }`}
-          >
-            {isLoading ? <Loader2 size={20} className="animate-spin" /> : <Send size={20} />}
-          </button>
+            {isBusy ? (
+              <button 
+                onClick={handleStop}
+                className="p-2 rounded-lg transition-all bg-zinc-800 text-zinc-200 hover:bg-red-600 hover:text-white"
+                title="Stop generating"
+              >
+                <Square size={20} />
+              </button>
+            ) : (
+              <button 
+                onClick={handleSendMessage}
+                disabled={!canSend}
+                title={uploadingIds.size > 0 ? 'Waiting for uploads to finish' : undefined}
+                className={`p-2 rounded-lg transition-all ${
+                  !canSend
+                    ? 'bg-zinc-800 text-zinc-600 cursor-not-allowed'
+                    : 'bg-indigo-600 text-white hover:bg-indigo-500 shadow-lg shadow-indigo-500/20'
+                }`}
+              >
+                <Send size={20} />
+              </button>
+            )}
+          </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,95 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { ChatAttachment, ChatMessage, Conversation } from '../types';
+import { getAttachmentKind, formatFileSize } from '../utils/fileUtils';
+
+interface ConversationDocumentProps {
+  conversation: Conversation;
+  messages: ChatMessage[];
+}
+
+// Inline so the exported file needs nothing else; Tailwind isn't available there
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; padding: 2rem 1rem; background: #09090b; color: #e4e4e7; font: 15px/1.6 system-ui, -apple-system, sans-serif; }
+  main { max-width: 48rem; margin: 0 auto; }
+  h1 { font-size: 1.5rem; margin: 0 0 0.25rem; color: #fff; }
+  .meta { color: #71717a; font-size: 0.8rem; margin-bottom: 2rem; }
+  .message { margin-bottom: 1.5rem; }
+  .role { font-size: 0.75rem; font-weight: 600; text-transform: uppercase; letter-spacing: 0.05em; color: #a1a1aa; margin-bottom: 0.35rem; }
+  .role time { font-weight: 400; text-transform: none; letter-spacing: 0; margin-left: 0.5rem; color: #71717a; }
+  .bubble { padding: 0.9rem 1.1rem; border-radius: 1rem; background: #27272a; border: 1px solid #3f3f46; overflow-wrap: anywhere; }
+  .user .bubble { background: #4f46e5; border-color: #4f46e5; color: #fff; }
+  .error .bubble { color: #fca5a5; }
+  .bubble > :first-child { margin-top: 0; }
+  .bubble > :last-child { margin-bottom: 0; }
+  .bubble img, .bubble video, .bubble audio { display: block; max-width: 100%; border-radius: 0.5rem; margin-bottom: 0.75rem; }
+  .file { display: inline-block; padding: 0.35rem 0.6rem; margin: 0 0.4rem 0.6rem 0; border-radius: 0.5rem; background: rgba(0,0,0,0.25); font-size: 0.8rem; }
+  .note { font-size: 0.8rem; font-style: italic; color: #a1a1aa; margin-top: 0.5rem; }
+  pre { padding: 0.75rem; border-radius: 0.5rem; background: #09090b; overflow-x: auto; font-size: 0.8rem; }
+  code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; }
+  :not(pre) > code { padding: 0.1rem 0.3rem; border-radius: 0.25rem; background: rgba(0,0,0,0.3); }
+  a { color: #a5b4fc; }
+  details { margin-bottom: 0.75rem; font-size: 0.8rem; }
+  summary { cursor: pointer; color: #a1a1aa; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #3f3f46; padding: 0.3rem 0.6rem; }
+`;
+
+const Attachment: React.FC<{ attachment: ChatAttachment }> = ({ attachment }) => {
+  const kind = getAttachmentKind(attachment.mimeType);
+  if (attachment.data && kind === 'image') return <img src={attachment.data} alt={attachment.name} />;
+  if (attachment.data && kind === 'audio') return <audio src={attachment.data} controls />;
+  if (attachment.data && kind === 'video') return <video src={attachment.data} controls />;
+  return <span className="file">📎 {attachment.name} · {formatFileSize(attachment.size)}</span>;
+};
+
+/**
+ * Static page for the HTML export; rendered to markup once, never mounted.
+ */
+const ConversationDocument: React.FC<ConversationDocumentProps> = ({ conversation, messages }) => (
+  <html lang="en">
+    <head>
+      <meta charSet="utf-8" />
+      <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+      <title>{conversation.title}</title>
+      <style dangerouslySetInnerHTML={{ __html: STYLES }} />
+    </head>
+    <body>
+      <main>
+        <h1>{conversation.title}</h1>
+        <p className="meta">Exported {new Date().toLocaleString()} · {messages.length} messages</p>
+        {messages.map(msg => (
+          <section key={msg.id} className={`message ${msg.role}${msg.isError ? ' error' : ''}`}>
+            <div className="role">
+              {msg.role === 'user' ? 'You' : 'Gemini'}
+              <time dateTime={new Date(msg.timestamp).toISOString()}>{new Date(msg.timestamp).toLocaleString()}</time>
+            </div>
+            <div className="bubble">
+              {msg.image && <img src={msg.image} alt="User upload" />}
+              {msg.attachments?.map(attachment => <Attachment key={attachment.id} attachment={attachment} />)}
+              {msg.toolCalls?.map(call => (
+                <details key={call.id}>
+                  <summary>🔧 {call.name}{call.error !== undefined ? ' (failed)' : ''}</summary>
+                  <pre>{JSON.stringify({ args: call.args, result: call.error ?? call.result }, null, 2)}</pre>
+                </details>
+              ))}
+              {msg.structured?.value !== undefined ? (
+                <pre><code>{JSON.stringify(msg.structured.value, null, 2)}</code></pre>
+              ) : (
+                <ReactMarkdown remarkPlugins={[remarkGfm]}>{msg.text}</ReactMarkdown>
+              )}
+              {msg.structured?.errors.map((error, index) => (
+                <p key={index} className="note">⚠ {error}</p>
+              ))}
+              {msg.isTruncated && <p className="note">Response stopped</p>}
+            </div>
+          </section>
+        ))}
+      </main>
+    </body>
+  </html>
+);
+
+export default ConversationDocument;
@@ -0,0 +1,213 @@
+import React, { useRef, useState } from 'react';
+import { Plus, Search, Pin, PinOff, Pencil, Trash2, Check, X, MessageSquare, Download, Upload } from 'lucide-react';
+import { Conversation } from '../types';
+import { matchesSearch } from '../services/chatStore';
+import { ConversationExportFormat, parseConversationFile } from '../services/conversationExport';
+
+const EXPORT_FORMATS: { format: ConversationExportFormat; label: string }[] = [
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'html', label: 'HTML' },
+  { format: 'json', label: 'JSON' },
+];
+
+interface ConversationSidebarProps {
+  conversations: Conversation[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onTogglePin: (id: string) => void;
+  onDelete: (id: string) => void;
+  onExport: (id: string, format: ConversationExportFormat) => void;
+  onImport: (conversation: Conversation) => void;
+}
+
+const ConversationSidebar: React.FC<ConversationSidebarProps> = ({
+  conversations,
+  activeId,
+  onSelect,
+  onCreate,
+  onRename,
+  onTogglePin,
+  onDelete,
+  onExport,
+  onImport
+}) => {
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState('');
+  const [exportingId, setExportingId] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const visible = conversations.filter(conv => matchesSearch(conv, query));
+
+  const startEditing = (conv: Conversation) => {
+    setEditingId(conv.id);
+    setEditValue(conv.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && editValue.trim()) {
+      onRename(editingId, editValue.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (conv: Conversation) => {
+    if (window.confirm(`Delete "${conv.title}"? This cannot be undone.`)) {
+      onDelete(conv.id);
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      onImport(parseConversationFile(await file.text()));
+      setImportError(null);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : "Couldn't import the file.");
+    }
+  };
+
+  return (
+    <div className="w-64 shrink-0 bg-zinc-900/50 rounded-2xl border border-zinc-800 backdrop-blur-sm flex flex-col overflow-hidden">
+      <div className="p-3 border-b border-zinc-800 space-y-2">
+        <div className="flex gap-2">
+          <button
+            onClick={onCreate}
+            className="flex-1 flex items-center justify-center gap-2 py-2 rounded-xl bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-500 transition-colors"
+          >
+            <Plus size={16} /> New chat
+          </button>
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            ref={importInputRef}
+            onChange={handleImportFile}
+          />
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="px-3 rounded-xl bg-zinc-800 text-zinc-400 hover:text-white transition-colors"
+            title="Import a conversation (JSON)"
+          >
+            <Upload size={16} />
+          </button>
+        </div>
+        {importError && (
+          <div className="flex items-start gap-2 text-xs text-red-400">
+            <p className="flex-1">{importError}</p>
+            <button onClick={() => setImportError(null)} className="text-zinc-500 hover:text-white" title="Dismiss">
+              <X size={12} />
+            </button>
+          </div>
+        )}
+        <div className="flex items-center gap-2 px-3 py-2 bg-zinc-950 rounded-xl border border-zinc-800 focus-within:border-indigo-500 transition-colors">
+          <Search size={14} className="text-zinc-500 shrink-0" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search chats..."
+            className="flex-1 min-w-0 bg-transparent text-sm text-white placeholder-zinc-500 outline-none"
+          />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {visible.map(conv => (
+          <React.Fragment key={conv.id}>
+            <div
+              className={`group flex items-center gap-2 px-3 py-2 rounded-xl border transition-colors ${
+                conv.id === activeId
+                  ? 'bg-zinc-800 border-indigo-500/50'
+                  : 'border-transparent hover:bg-zinc-800/50'
+              }`}
+            >
+              {editingId === conv.id ? (
+                <>
+                  <input
+                    autoFocus
+                    value={editValue}
+                    onChange={(e) => setEditValue(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="flex-1 min-w-0 bg-zinc-950 border border-zinc-700 rounded-lg px-2 py-1 text-sm text-white outline-none focus:border-indigo-500"
+                  />
+                  <button onClick={commitRename} className="text-zinc-400 hover:text-emerald-400" title="Save">
+                    <Check size={14} />
+                  </button>
+                  <button onClick={() => setEditingId(null)} className="text-zinc-400 hover:text-white" title="Cancel">
+                    <X size={14} />
+                  </button>
+                </>
+              ) : (
+                <>
+                  <button
+                    onClick={() => onSelect(conv.id)}
+                    className="flex-1 min-w-0 flex items-center gap-2 text-left"
+                  >
+                    {conv.pinned ? (
+                      <Pin size={14} className="text-indigo-400 shrink-0" />
+                    ) : (
+                      <MessageSquare size={14} className="text-zinc-500 shrink-0" />
+                    )}
+                    <span className="text-sm text-zinc-300 truncate">{conv.title}</span>
+                  </button>
+                  <div className="hidden group-hover:flex items-center gap-1">
+                    <button onClick={() => onTogglePin(conv.id)} className="text-zinc-500 hover:text-indigo-400" title={conv.pinned ? 'Unpin' : 'Pin'}>
+                      {conv.pinned ? <PinOff size={14} /> : <Pin size={14} />}
+                    </button>
+                    <button
+                      onClick={() => setExportingId(prev => prev === conv.id ? null : conv.id)}
+                      className="text-zinc-500 hover:text-white"
+                      title="Export"
+                    >
+                      <Download size={14} />
+                    </button>
+                    <button onClick={() => startEditing(conv)} className="text-zinc-500 hover:text-white" title="Rename">
+                      <Pencil size={14} />
+                    </button>
+                    <button onClick={() => handleDelete(conv)} className="text-zinc-500 hover:text-red-400" title="Delete">
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+            {exportingId === conv.id && (
+              <div className="flex items-center gap-1 px-3 pb-1 text-xs">
+                <span className="text-zinc-500 mr-1">Export as</span>
+                {EXPORT_FORMATS.map(({ format, label }) => (
+                  <button
+                    key={format}
+                    onClick={() => {
+                      onExport(conv.id, format);
+                      setExportingId(null);
+                    }}
+                    className="px-2 py-0.5 rounded-md bg-zinc-800 text-zinc-300 hover:bg-indigo-600 hover:text-white transition-colors"
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </React.Fragment>
+        ))}
+        {visible.length === 0 && (
+          <p className="text-center text-zinc-600 text-sm py-10">
+            {query ? 'No matching chats' : 'No chats yet'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ConversationSidebar;
@@ -0,0 +1,42 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Copy, Check, LucideIcon } from 'lucide-react';
+
+interface CopyButtonProps {
+  onCopy: () => Promise<void>;
+  title: string;
+  icon?: LucideIcon;
+  className?: string;
+}
+
+const CONFIRMATION_MS = 1500;
+
+/**
+ * Icon button that runs a copy action and shows a check mark once it succeeds.
+ */
+const CopyButton: React.FC<CopyButtonProps> = ({ onCopy, title, icon: Icon = Copy, className = '' }) => {
+  const [copied, setCopied] = useState(false);
+  const timerRef = useRef<number | null>(null);
+
+  useEffect(() => () => {
+    if (timerRef.current !== null) window.clearTimeout(timerRef.current);
+  }, []);
+
+  const handleClick = async () => {
+    try {
+      await onCopy();
+      setCopied(true);
+      if (timerRef.current !== null) window.clearTimeout(timerRef.current);
+      timerRef.current = window.setTimeout(() => setCopied(false), CONFIRMATION_MS);
+    } catch (error) {
+      console.error("Failed to copy:", error);
+    }
+  };
+
+  return (
+    <button onClick={handleClick} className={className} title={copied ? 'Copied' : title}>
+      {copied ? <Check size={14} className="text-emerald-400" /> : <Icon size={14} />}
+    </button>
+  );
+};
+
+export default CopyButton;
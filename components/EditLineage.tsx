@@ -0,0 +1,61 @@
+import React from 'react';
+import { ChevronRight, GitBranch } from 'lucide-react';
+import { GeneratedImage } from '../types';
+
+interface EditLineageProps {
+  images: GeneratedImage[];
+  current: GeneratedImage;
+  onSelect: (image: GeneratedImage) => void;
+}
+
+/**
+ * Shows the chain of edits leading to the current image and the edits branching off it.
+ */
+const EditLineage: React.FC<EditLineageProps> = ({ images, current, onSelect }) => {
+  const byId = new Map(images.map(img => [img.id, img]));
+
+  const chain: GeneratedImage[] = [current];
+  let parent = current.parentId ? byId.get(current.parentId) : undefined;
+  while (parent && !chain.includes(parent)) {
+    chain.unshift(parent);
+    parent = parent.parentId ? byId.get(parent.parentId) : undefined;
+  }
+
+  const branches = images
+    .filter(img => img.parentId === current.id)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  if (chain.length === 1 && branches.length === 0) return null;
+
+  const thumb = (img: GeneratedImage, active: boolean) => (
+    <button
+      key={img.id}
+      onClick={() => onSelect(img)}
+      title={img.prompt}
+      className={`shrink-0 w-12 h-12 rounded-lg overflow-hidden border-2 transition-colors ${
+        active ? 'border-pink-500' : 'border-transparent hover:border-zinc-500'
+      }`}
+    >
+      <img src={img.thumbnailUrl} alt="" className="w-full h-full object-cover" />
+    </button>
+  );
+
+  return (
+    <div className="flex items-center gap-1 p-2 bg-zinc-900/50 border border-zinc-800 backdrop-blur-sm rounded-2xl overflow-x-auto">
+      {chain.map((img, idx) => (
+        <React.Fragment key={img.id}>
+          {idx > 0 && <ChevronRight size={14} className="shrink-0 text-zinc-500" />}
+          {thumb(img, img.id === current.id)}
+        </React.Fragment>
+      ))}
+      {branches.length > 0 && (
+        <>
+          <GitBranch size={14} className="shrink-0 ml-2 text-pink-400" />
+          {branches.map(img => thumb(img, false))}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default EditLineage;
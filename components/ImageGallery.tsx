@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { Search, Star, CheckSquare, Square, Trash2, Archive, X } from 'lucide-react';
+import { GeneratedImage } from '../types';
+import { matchesImageSearch } from '../services/imageStore';
+
+interface ImageGalleryProps {
+  images: GeneratedImage[];
+  currentId: string | null;
+  onSelect: (image: GeneratedImage) => void;
+  onToggleFavorite: (image: GeneratedImage) => void;
+  onDelete: (ids: string[]) => void;
+  onExport: (images: GeneratedImage[]) => void;
+}
+
+const ImageGallery: React.FC<ImageGalleryProps> = ({
+  images,
+  currentId,
+  onSelect,
+  onToggleFavorite,
+  onDelete,
+  onExport
+}) => {
+  const [query, setQuery] = useState('');
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const visible = images.filter(img =>
+    matchesImageSearch(img, query) && (!favoritesOnly || img.favorite)
+  );
+  const selected = visible.filter(img => selectedIds.has(img.id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const exitSelection = () => {
+    setIsSelecting(false);
+    setSelectedIds(new Set());
+  };
+
+  const handleBulkDelete = () => {
+    if (selected.length === 0) return;
+    if (window.confirm(`Delete ${selected.length} image(s)? This cannot be undone.`)) {
+      onDelete(selected.map(img => img.id));
+      exitSelection();
+    }
+  };
+
+  return (
+    <div className="w-72 bg-zinc-900/50 rounded-2xl border border-zinc-800 backdrop-blur-sm flex flex-col overflow-hidden">
+      <div className="p-4 border-b border-zinc-800 space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold text-zinc-300">History</h3>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setFavoritesOnly(prev => !prev)}
+              className={`p-1.5 rounded-lg transition-colors ${favoritesOnly ? 'text-yellow-400 bg-zinc-800' : 'text-zinc-500 hover:text-white'}`}
+              title={favoritesOnly ? 'Show all' : 'Show favorites only'}
+            >
+              <Star size={16} fill={favoritesOnly ? 'currentColor' : 'none'} />
+            </button>
+            <button
+              onClick={() => isSelecting ? exitSelection() : setIsSelecting(true)}
+              className={`p-1.5 rounded-lg transition-colors ${isSelecting ? 'text-pink-400 bg-zinc-800' : 'text-zinc-500 hover:text-white'}`}
+              title={isSelecting ? 'Cancel selection' : 'Select images'}
+            >
+              {isSelecting ? <X size={16} /> : <CheckSquare size={16} />}
+            </button>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 px-3 py-2 bg-zinc-950 rounded-xl border border-zinc-800 focus-within:border-pink-500 transition-colors">
+          <Search size={14} className="text-zinc-500 shrink-0" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search prompts or tags..."
+            className="flex-1 min-w-0 bg-transparent text-sm text-white placeholder-zinc-500 outline-none"
+          />
+        </div>
+        {isSelecting && (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setSelectedIds(new Set(visible.map(img => img.id)))}
+              className="text-xs text-zinc-400 hover:text-white"
+            >
+              Select all
+            </button>
+            <span className="text-xs text-zinc-600 flex-1">{selected.length} selected</span>
+            <button
+              onClick={() => onExport(selected)}
+              disabled={selected.length === 0}
+              className="p-1.5 rounded-lg text-zinc-400 hover:text-white disabled:text-zinc-700 disabled:cursor-not-allowed"
+              title="Export as zip"
+            >
+              <Archive size={16} />
+            </button>
+            <button
+              onClick={handleBulkDelete}
+              disabled={selected.length === 0}
+              className="p-1.5 rounded-lg text-zinc-400 hover:text-red-400 disabled:text-zinc-700 disabled:cursor-not-allowed"
+              title="Delete selected"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        )}
+      </div>
+      <div className="flex-1 overflow-y-auto p-3 space-y-3">
+        {visible.map(img => (
+          <div key={img.id} className="relative group">
+            <button
+              onClick={() => isSelecting ? toggleSelected(img.id) : onSelect(img)}
+              className={`w-full text-left p-2 rounded-xl transition-colors border ${
+                currentId === img.id || selectedIds.has(img.id)
+                 ? 'bg-zinc-800 border-pink-500/50'
+                 : 'hover:bg-zinc-800/50 border-transparent'
+              }`}
+            >
+              <img
+                src={img.thumbnailUrl}
+                alt=""
+                className="w-full h-32 object-cover rounded-lg mb-2 bg-zinc-950"
+              />
+              <p className="text-xs text-zinc-400 line-clamp-2">{img.prompt}</p>
+              {img.tags.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {img.tags.map(tag => (
+                    <span key={tag} className="px-1.5 py-0.5 rounded bg-zinc-800 text-[10px] text-zinc-400">#{tag}</span>
+                  ))}
+                </div>
+              )}
+            </button>
+            {isSelecting ? (
+              <span className="absolute top-4 left-4 text-white drop-shadow pointer-events-none">
+                {selectedIds.has(img.id) ? <CheckSquare size={18} /> : <Square size={18} />}
+              </span>
+            ) : (
+              <button
+                onClick={() => onToggleFavorite(img)}
+                className={`absolute top-4 right-4 p-1 rounded-full bg-black/60 backdrop-blur-md transition ${
+                  img.favorite ? 'text-yellow-400' : 'text-white/70 opacity-0 group-hover:opacity-100'
+                }`}
+                title={img.favorite ? 'Remove from favorites' : 'Add to favorites'}
+              >
+                <Star size={14} fill={img.favorite ? 'currentColor' : 'none'} />
+              </button>
+            )}
+          </div>
+        ))}
+        {visible.length === 0 && (
+          <p className="text-center text-zinc-600 text-sm py-10">
+            {images.length === 0 ? 'No history yet' : 'No matching images'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImageGallery;
@@ -1,7 +1,31 @@
-import React, { useState } from 'react';
-import { Sparkles, Download, Loader2 } from 'lucide-react';
-import { generateImage } from '../services/geminiService';
-import { GeneratedImage } from '../types';
+import React, { useState, useRef, useEffect } from 'react';
+import { Sparkles, Download, Loader2, Square, Star, X, SlidersHorizontal, Wand2, Upload, Brush } from 'lucide-react';
+import { isAbortError, DEFAULT_IMAGE_OPTIONS, IMAGE_ASPECT_RATIOS, IMAGE_STYLE_PRESETS } from '../services/geminiService';
+import { provider } from '../services/providers';
+import {
+  listImages,
+  saveGeneratedImage,
+  getImageDataUri,
+  updateImageMetadata,
+  deleteImages,
+  exportImagesZip,
+  releaseImage
+} from '../services/imageStore';
+import { GeneratedImage, ImageGenerationOptions } from '../types';
+import { fileExtensionForMimeType, blobToDataUri, compositeWithMask, closestAspectRatio } from '../utils/imageUtils';
+import { downloadBlob } from '../utils/download';
+import ImageGallery from './ImageGallery';
+import ImageSettingsPanel from './ImageSettingsPanel';
+import EditLineage from './EditLineage';
+import MaskEditor from './MaskEditor';
+
+const describeParams = (params: ImageGenerationOptions): string =>
+  [
+    params.aspectRatio,
+    params.stylePreset && IMAGE_STYLE_PRESETS[params.stylePreset]?.label,
+    params.seed !== undefined && `seed ${params.seed}`,
+    params.temperature !== undefined && `temp ${params.temperature}`,
+  ].filter(Boolean).join(' · ');
 
 const ImageGenView: React.FC = () => {
   const [prompt, setPrompt] = useState('');
@@ -9,27 +33,201 @@ const ImageGenView: React.FC = () => {
   const [history, setHistory] = useState<GeneratedImage[]>([]);
   const [currentImage, setCurrentImage] = useState<GeneratedImage | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [tagInput, setTagInput] = useState('');
+  const [options, setOptions] = useState<ImageGenerationOptions>(DEFAULT_IMAGE_OPTIONS);
+  const [showSettings, setShowSettings] = useState(false);
+  // Variants from the latest multi-image generation, shown as a grid on the stage
+  const [variants, setVariants] = useState<GeneratedImage[]>([]);
+  // In edit mode the prompt is an instruction applied to the current image
+  const [mode, setMode] = useState<'generate' | 'edit'>('generate');
+  const uploadInputRef = useRef<HTMLInputElement>(null);
+  const [isMasking, setIsMasking] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const historyRef = useRef<GeneratedImage[]>([]);
+  historyRef.current = history;
+
+  // Load the stored gallery; release its object URLs on unmount
+  useEffect(() => {
+    let cancelled = false;
+
+    listImages()
+      .then(images => {
+        if (cancelled) {
+          images.forEach(releaseImage);
+          return;
+        }
+        setHistory(images);
+        setCurrentImage(images[0] || null);
+      })
+      .catch(err => {
+        console.error("Failed to load image history", err);
+        if (!cancelled) setError("Could not load saved images.");
+      });
+
+    return () => {
+      cancelled = true;
+      historyRef.current.forEach(releaseImage);
+    };
+  }, []);
+
+  // Abort any in-flight generation when the view unmounts
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const isEditing = mode === 'edit';
+  const canSubmit = !!prompt.trim() && (!isEditing || !!currentImage);
 
   const handleGenerate = async () => {
-    if (!prompt.trim() || isLoading) return;
+    if (!canSubmit || isLoading) return;
+    const source = isEditing ? currentImage : null;
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsLoading(true);
     setError(null);
 
     try {
-      const base64Image = await generateImage(prompt);
-      const newImage: GeneratedImage = {
-        url: base64Image,
-        prompt: prompt,
-        timestamp: Date.now()
-      };
-      
-      setCurrentImage(newImage);
+      const results = source
+        ? await provider.editImage(await getImageDataUri(source.id), prompt, options, controller.signal)
+        : await provider.generateImage(prompt, options, controller.signal);
+      if (controller.signal.aborted) return;
+      const newImages: GeneratedImage[] = [];
+      for (const { image, seed } of results) {
+        // Edits keep the source's framing, so record the ratio they came out in
+        const aspectRatio = source ? await closestAspectRatio(image, IMAGE_ASPECT_RATIOS) : options.aspectRatio;
+        const params = { ...options, aspectRatio, seed };
+        newImages.push(await saveGeneratedImage(image, prompt, source
+          ? { params, kind: 'edit', parentId: source.id }
+          : { params }
+        ));
+      }
+
+      setCurrentImage(newImages[0]);
+      setVariants(newImages.length > 1 ? newImages : []);
+      setIsMasking(false);
+      setHistory(prev => [...newImages, ...prev]);
+    } catch (err) {
+      if (isAbortError(err, controller.signal)) return;
+      setError(source
+        ? "Failed to edit image. Please try a different instruction or try again later."
+        : "Failed to generate image. Please try a different prompt or try again later.");
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsLoading(false);
+      }
+    }
+  };
+
+  const handleInpaint = async (mask: string, inpaintPrompt: string) => {
+    if (!currentImage || isLoading) return;
+    const source = currentImage;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const original = await getImageDataUri(source.id);
+      const generated = await provider.inpaintImage(original, mask, inpaintPrompt, controller.signal);
+      if (controller.signal.aborted) return;
+
+      const composited = await compositeWithMask(original, generated, mask);
+      const newImage = await saveGeneratedImage(composited, inpaintPrompt, {
+        kind: 'inpaint',
+        parentId: source.id
+      });
+
       setHistory(prev => [newImage, ...prev]);
+      setCurrentImage(newImage);
+      setIsMasking(false);
     } catch (err) {
-      setError("Failed to generate image. Please try a different prompt or try again later.");
+      if (isAbortError(err, controller.signal)) return;
+      setError("Failed to inpaint the selected area. Please try again.");
     } finally {
-      setIsLoading(false);
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsLoading(false);
+      }
+    }
+  };
+
+  // Uploaded images join the history as the root of a new edit chain
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const uploaded = await saveGeneratedImage(await blobToDataUri(file), file.name, { kind: 'upload' });
+      setHistory(prev => [uploaded, ...prev]);
+      handleSelectImage(uploaded);
+      setMode('edit');
+    } catch (err) {
+      console.error("Failed to upload image", err);
+      setError("Failed to load that image.");
+    }
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setIsLoading(false);
+  };
+
+  const updateImage = (image: GeneratedImage, changes: Partial<Pick<GeneratedImage, 'favorite' | 'tags'>>) => {
+    const updated = { ...image, ...changes };
+    setHistory(prev => prev.map(img => img.id === image.id ? updated : img));
+    setVariants(prev => prev.map(img => img.id === image.id ? updated : img));
+    setCurrentImage(prev => prev?.id === image.id ? updated : prev);
+    updateImageMetadata(image.id, { favorite: updated.favorite, tags: updated.tags })
+      .catch(err => console.error("Failed to update image", err));
+  };
+
+  const handleSelectImage = (image: GeneratedImage) => {
+    setCurrentImage(image);
+    setVariants([]);
+    setIsMasking(false);
+  };
+
+  const handleToggleFavorite = (image: GeneratedImage) => {
+    updateImage(image, { favorite: !image.favorite });
+  };
+
+  const handleAddTag = () => {
+    const tag = tagInput.trim().replace(/^#/, '');
+    if (!currentImage || !tag || currentImage.tags.includes(tag)) return;
+    updateImage(currentImage, { tags: [...currentImage.tags, tag] });
+    setTagInput('');
+  };
+
+  const handleRemoveTag = (tag: string) => {
+    if (!currentImage) return;
+    updateImage(currentImage, { tags: currentImage.tags.filter(t => t !== tag) });
+  };
+
+  const handleDelete = (ids: string[]) => {
+    const removed = history.filter(img => ids.includes(img.id));
+    const remaining = history.filter(img => !ids.includes(img.id));
+    setHistory(remaining);
+    setVariants(prev => prev.filter(img => !ids.includes(img.id)));
+    if (currentImage && ids.includes(currentImage.id)) {
+      setCurrentImage(remaining[0] || null);
+      setIsMasking(false);
+    }
+    removed.forEach(releaseImage);
+    deleteImages(ids).catch(err => console.error("Failed to delete images", err));
+  };
+
+  const handleExport = async (images: GeneratedImage[]) => {
+    try {
+      const zip = await exportImagesZip(images);
+      downloadBlob(zip, `gemini-images-${Date.now()}.zip`);
+    } catch (err) {
+      console.error("Failed to export images", err);
+      setError("Failed to export images.");
     }
   };
 
@@ -37,100 +235,212 @@ const ImageGenView: React.FC = () => {
     <div className="flex flex-col h-full space-y-6">
        {/* Input Section */}
        <div className="bg-zinc-900/50 p-6 rounded-2xl border border-zinc-800 backdrop-blur-sm">
-          <h2 className="text-xl font-bold mb-4 flex items-center gap-2 text-white">
-            <Sparkles className="text-pink-500" />
-            Image Generator
-          </h2>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-bold flex items-center gap-2 text-white">
+              {isEditing ? <Wand2 className="text-pink-500" /> : <Sparkles className="text-pink-500" />}
+              {isEditing ? 'Image Editor' : 'Image Generator'}
+            </h2>
+            <div className="flex bg-zinc-950 rounded-xl border border-zinc-800 p-1">
+              {(['generate', 'edit'] as const).map(m => (
+                <button
+                  key={m}
+                  onClick={() => setMode(m)}
+                  className={`px-4 py-1.5 rounded-lg text-sm font-medium capitalize transition-colors ${
+                    mode === m ? 'bg-zinc-800 text-white' : 'text-zinc-500 hover:text-white'
+                  }`}
+                >
+                  {m}
+                </button>
+              ))}
+            </div>
+          </div>
           <div className="flex gap-2">
+            {isEditing && (
+              <>
+                <input
+                  type="file"
+                  accept="image/*"
+                  className="hidden"
+                  ref={uploadInputRef}
+                  onChange={handleUpload}
+                />
+                {currentImage && (
+                  <img
+                    src={currentImage.thumbnailUrl}
+                    alt="Edit source"
+                    title="Editing the selected image. Pick another from history or upload one."
+                    className="w-12 h-12 rounded-xl object-cover border border-zinc-800 shrink-0"
+                  />
+                )}
+                <button
+                  onClick={() => uploadInputRef.current?.click()}
+                  className="px-3 rounded-xl bg-zinc-950 border border-zinc-800 text-zinc-400 hover:text-white transition-colors"
+                  title="Upload an image to edit"
+                >
+                  <Upload className="w-5 h-5" />
+                </button>
+              </>
+            )}
             <input
               type="text"
               value={prompt}
               onChange={(e) => setPrompt(e.target.value)}
-              placeholder="Describe the image you want to create... (e.g., A futuristic city on Mars)"
+              placeholder={isEditing
+                ? (currentImage ? "Describe the edit... (e.g., Remove the background, make it night-time)" : "Upload an image or pick one from history to edit")
+                : "Describe the image you want to create... (e.g., A futuristic city on Mars)"}
               className="flex-1 bg-zinc-950 border border-zinc-800 rounded-xl px-4 py-3 text-white placeholder-zinc-500 focus:outline-none focus:border-pink-500 transition-colors"
               onKeyDown={(e) => e.key === 'Enter' && handleGenerate()}
             />
             <button
-              onClick={handleGenerate}
-              disabled={isLoading || !prompt.trim()}
-              className={`px-6 rounded-xl font-medium transition-all ${
-                isLoading || !prompt.trim()
-                 ? 'bg-zinc-800 text-zinc-500 cursor-not-allowed'
-                 : 'bg-pink-600 text-white hover:bg-pink-500 shadow-lg shadow-pink-500/20'
+              onClick={() => setShowSettings(prev => !prev)}
+              className={`px-3 rounded-xl transition-colors border ${
+                showSettings
+                  ? 'bg-zinc-800 border-pink-500/50 text-pink-400'
+                  : 'bg-zinc-950 border-zinc-800 text-zinc-400 hover:text-white'
               }`}
+              title="Generation settings"
             >
-              {isLoading ? (
-                <Loader2 className="animate-spin w-5 h-5" />
-              ) : (
-                "Generate"
-              )}
+              <SlidersHorizontal className="w-5 h-5" />
             </button>
+            {isLoading ? (
+              <button
+                onClick={handleStop}
+                className="px-6 rounded-xl font-medium transition-all bg-zinc-800 text-zinc-200 hover:bg-red-600 hover:text-white flex items-center gap-2"
+                title="Stop generating"
+              >
+                <Loader2 className="animate-spin w-5 h-5" />
+                <Square className="w-4 h-4" />
+              </button>
+            ) : (
+              <button
+                onClick={handleGenerate}
+                disabled={!canSubmit}
+                className={`px-6 rounded-xl font-medium transition-all ${
+                  !canSubmit
+                   ? 'bg-zinc-800 text-zinc-500 cursor-not-allowed'
+                   : 'bg-pink-600 text-white hover:bg-pink-500 shadow-lg shadow-pink-500/20'
+                }`}
+              >
+                {isEditing ? 'Apply Edit' : 'Generate'}
+              </button>
+            )}
           </div>
+          {showSettings && <ImageSettingsPanel options={options} onChange={setOptions} />}
           {error && <p className="mt-3 text-red-400 text-sm">{error}</p>}
        </div>
 
        {/* Main Display Area */}
        <div className="flex-1 flex gap-6 min-h-0">
           {/* Main Image Stage */}
-          <div className="flex-1 bg-zinc-900/50 rounded-2xl border border-zinc-800 backdrop-blur-sm flex items-center justify-center p-4 relative overflow-hidden group">
-             {currentImage ? (
-               <div className="relative w-full h-full flex items-center justify-center">
-                 <img 
-                   src={currentImage.url} 
-                   alt={currentImage.prompt}
-                   className="max-h-full max-w-full object-contain rounded-lg shadow-2xl"
+          <div className="flex-1 flex flex-col gap-3 min-w-0">
+            <div className="flex-1 min-h-0 bg-zinc-900/50 rounded-2xl border border-zinc-800 backdrop-blur-sm flex items-center justify-center p-4 relative overflow-hidden group">
+               {variants.length > 1 ? (
+                 <div className="w-full h-full grid grid-cols-2 gap-3 auto-rows-fr">
+                   {variants.map((img, idx) => (
+                     <button
+                       key={img.id}
+                       onClick={() => handleSelectImage(img)}
+                       className="relative flex items-center justify-center min-h-0 rounded-xl border border-zinc-800 hover:border-pink-500/50 bg-zinc-950/50 overflow-hidden transition-colors"
+                     >
+                       <img src={img.url} alt={img.prompt} className="max-h-full max-w-full object-contain" />
+                       <span className="absolute top-2 left-2 bg-black/60 backdrop-blur-md px-2 py-0.5 rounded-full text-xs text-white/80">
+                         #{idx + 1}{img.params?.seed !== undefined && ` · seed ${img.params.seed}`}
+                       </span>
+                     </button>
+                   ))}
+                 </div>
+               ) : currentImage && isMasking ? (
+                 <MaskEditor
+                   imageUrl={currentImage.url}
+                   isLoading={isLoading}
+                   onSubmit={handleInpaint}
+                   onStop={handleStop}
+                   onCancel={() => setIsMasking(false)}
                  />
-                 <a 
-                   href={currentImage.url} 
-                   download={`gemini-gen-${Date.now()}.png`}
-                   className="absolute bottom-4 right-4 bg-black/70 text-white p-3 rounded-full hover:bg-black transition opacity-0 group-hover:opacity-100 backdrop-blur-md"
-                   title="Download"
-                 >
-                   <Download size={20} />
-                 </a>
-                 <div className="absolute top-4 left-4 bg-black/60 backdrop-blur-md px-3 py-1 rounded-full text-xs text-white/80 max-w-[80%] truncate">
-                   {currentImage.prompt}
+               ) : currentImage ? (
+                 <div className="relative w-full h-full flex items-center justify-center">
+                   <img 
+                     src={currentImage.url} 
+                     alt={currentImage.prompt}
+                     className="max-h-full max-w-full object-contain rounded-lg shadow-2xl"
+                   />
+                   <a 
+                     href={currentImage.url} 
+                     download={`gemini-gen-${currentImage.timestamp}.${fileExtensionForMimeType(currentImage.mimeType)}`}
+                     className="absolute bottom-4 right-4 bg-black/70 text-white p-3 rounded-full hover:bg-black transition opacity-0 group-hover:opacity-100 backdrop-blur-md"
+                     title="Download"
+                   >
+                     <Download size={20} />
+                   </a>
+                   <button
+                     onClick={() => setIsMasking(true)}
+                     className="absolute bottom-4 right-36 bg-black/70 text-white p-3 rounded-full hover:bg-black transition opacity-0 group-hover:opacity-100 backdrop-blur-md"
+                     title="Inpaint a region"
+                   >
+                     <Brush size={20} />
+                   </button>
+                   <button
+                     onClick={() => handleToggleFavorite(currentImage)}
+                     className={`absolute bottom-4 right-20 bg-black/70 p-3 rounded-full hover:bg-black transition backdrop-blur-md ${
+                       currentImage.favorite ? 'text-yellow-400' : 'text-white opacity-0 group-hover:opacity-100'
+                     }`}
+                     title={currentImage.favorite ? 'Remove from favorites' : 'Add to favorites'}
+                   >
+                     <Star size={20} fill={currentImage.favorite ? 'currentColor' : 'none'} />
+                   </button>
+                   <div className="absolute top-4 left-4 flex flex-col items-start gap-1 max-w-[80%]">
+                     <div className="bg-black/60 backdrop-blur-md px-3 py-1 rounded-full text-xs text-white/80 max-w-full truncate">
+                       {currentImage.prompt}
+                     </div>
+                     {currentImage.params && (
+                       <div className="bg-black/60 backdrop-blur-md px-3 py-1 rounded-full text-[10px] font-mono text-white/60">
+                         {describeParams(currentImage.params)}
+                       </div>
+                     )}
+                   </div>
+                   <div className="absolute bottom-4 left-4 flex flex-wrap items-center gap-1 max-w-[60%]">
+                     {currentImage.tags.map(tag => (
+                       <span key={tag} className="flex items-center gap-1 bg-black/60 backdrop-blur-md px-2 py-1 rounded-full text-xs text-white/80">
+                         #{tag}
+                         <button onClick={() => handleRemoveTag(tag)} className="hover:text-white" title="Remove tag">
+                           <X size={12} />
+                         </button>
+                       </span>
+                     ))}
+                     <input
+                       type="text"
+                       value={tagInput}
+                       onChange={(e) => setTagInput(e.target.value)}
+                       onKeyDown={(e) => e.key === 'Enter' && handleAddTag()}
+                       placeholder="+ tag"
+                       className="w-20 bg-black/60 backdrop-blur-md px-2 py-1 rounded-full text-xs text-white placeholder-white/50 outline-none opacity-0 group-hover:opacity-100 focus:opacity-100 transition"
+                     />
+                   </div>
                  </div>
-               </div>
-             ) : (
-               <div className="text-zinc-600 flex flex-col items-center">
-                 <div className="w-20 h-20 rounded-full bg-zinc-800/50 flex items-center justify-center mb-4">
-                   <ImageIcon className="w-10 h-10 text-zinc-700" />
+               ) : (
+                 <div className="text-zinc-600 flex flex-col items-center">
+                   <div className="w-20 h-20 rounded-full bg-zinc-800/50 flex items-center justify-center mb-4">
+                     <ImageIcon className="w-10 h-10 text-zinc-700" />
+                   </div>
+                   <p>Generated images will appear here</p>
                  </div>
-                 <p>Generated images will appear here</p>
-               </div>
-             )}
+               )}
+            </div>
+
+            {currentImage && variants.length <= 1 && !isMasking && (
+              <EditLineage images={history} current={currentImage} onSelect={handleSelectImage} />
+            )}
           </div>
 
           {/* History Sidebar */}
-          <div className="w-64 bg-zinc-900/50 rounded-2xl border border-zinc-800 backdrop-blur-sm flex flex-col overflow-hidden">
-             <div className="p-4 border-b border-zinc-800">
-               <h3 className="font-semibold text-zinc-300">History</h3>
-             </div>
-             <div className="flex-1 overflow-y-auto p-3 space-y-3">
-               {history.map((img, idx) => (
-                 <button
-                   key={idx}
-                   onClick={() => setCurrentImage(img)}
-                   className={`w-full text-left p-2 rounded-xl transition-colors border ${
-                     currentImage === img 
-                      ? 'bg-zinc-800 border-pink-500/50' 
-                      : 'hover:bg-zinc-800/50 border-transparent'
-                   }`}
-                 >
-                   <img 
-                     src={img.url} 
-                     alt="" 
-                     className="w-full h-32 object-cover rounded-lg mb-2 bg-zinc-950" 
-                   />
-                   <p className="text-xs text-zinc-400 line-clamp-2">{img.prompt}</p>
-                 </button>
-               ))}
-               {history.length === 0 && (
-                 <p className="text-center text-zinc-600 text-sm py-10">No history yet</p>
-               )}
-             </div>
-          </div>
+          <ImageGallery
+            images={history}
+            currentId={currentImage?.id || null}
+            onSelect={handleSelectImage}
+            onToggleFavorite={handleToggleFavorite}
+            onDelete={handleDelete}
+            onExport={handleExport}
+          />
        </div>
     </div>
   );
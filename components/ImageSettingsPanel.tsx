@@ -0,0 +1,125 @@
+import React from 'react';
+import { Dices } from 'lucide-react';
+import { ImageGenerationOptions } from '../types';
+import { IMAGE_ASPECT_RATIOS, IMAGE_STYLE_PRESETS } from '../services/geminiService';
+
+const MAX_VARIANTS = 4;
+
+interface ImageSettingsPanelProps {
+  options: ImageGenerationOptions;
+  onChange: (options: ImageGenerationOptions) => void;
+}
+
+const ImageSettingsPanel: React.FC<ImageSettingsPanelProps> = ({ options, onChange }) => {
+  const update = (changes: Partial<ImageGenerationOptions>) => onChange({ ...options, ...changes });
+
+  const handleSeedChange = (value: string) => {
+    const seed = parseInt(value, 10);
+    update({ seed: Number.isFinite(seed) ? seed : undefined });
+  };
+
+  return (
+    <div className="mt-4 grid grid-cols-1 lg:grid-cols-2 gap-4 p-4 bg-zinc-950/60 rounded-xl border border-zinc-800">
+      <div className="space-y-2">
+        <label className="text-xs font-medium text-zinc-400 uppercase tracking-wider">Aspect ratio</label>
+        <div className="flex flex-wrap gap-1">
+          {IMAGE_ASPECT_RATIOS.map(ratio => (
+            <button
+              key={ratio}
+              onClick={() => update({ aspectRatio: ratio })}
+              className={`px-3 py-1.5 rounded-lg text-xs font-mono transition-colors ${
+                options.aspectRatio === ratio
+                  ? 'bg-pink-600 text-white'
+                  : 'bg-zinc-800 text-zinc-400 hover:text-white'
+              }`}
+            >
+              {ratio}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-xs font-medium text-zinc-400 uppercase tracking-wider">Variants</label>
+        <div className="flex gap-1">
+          {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(count => (
+            <button
+              key={count}
+              onClick={() => update({ count })}
+              className={`w-9 py-1.5 rounded-lg text-xs font-mono transition-colors ${
+                options.count === count
+                  ? 'bg-pink-600 text-white'
+                  : 'bg-zinc-800 text-zinc-400 hover:text-white'
+              }`}
+            >
+              {count}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-xs font-medium text-zinc-400 uppercase tracking-wider">Style preset</label>
+        <select
+          value={options.stylePreset || ''}
+          onChange={(e) => update({ stylePreset: e.target.value || undefined })}
+          className="w-full bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-white outline-none focus:border-pink-500"
+        >
+          <option value="">None</option>
+          {Object.entries(IMAGE_STYLE_PRESETS).map(([key, preset]) => (
+            <option key={key} value={key}>{preset.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-xs font-medium text-zinc-400 uppercase tracking-wider">Seed</label>
+        <div className="flex gap-2">
+          <input
+            type="number"
+            value={options.seed ?? ''}
+            onChange={(e) => handleSeedChange(e.target.value)}
+            placeholder="Random"
+            className="flex-1 min-w-0 bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-white placeholder-zinc-600 outline-none focus:border-pink-500"
+          />
+          <button
+            onClick={() => update({ seed: Math.floor(Math.random() * 2 ** 31) })}
+            className="px-3 rounded-lg bg-zinc-800 text-zinc-400 hover:text-white transition-colors"
+            title="Pick a random seed"
+          >
+            <Dices size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-xs font-medium text-zinc-400 uppercase tracking-wider">Negative prompt</label>
+        <input
+          type="text"
+          value={options.negativePrompt || ''}
+          onChange={(e) => update({ negativePrompt: e.target.value || undefined })}
+          placeholder="Things to avoid (e.g., text, watermarks, blur)"
+          className="w-full bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-white placeholder-zinc-600 outline-none focus:border-pink-500"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-xs font-medium text-zinc-400 uppercase tracking-wider flex justify-between">
+          <span>Temperature</span>
+          <span className="font-mono normal-case">{options.temperature ?? 'default'}</span>
+        </label>
+        <input
+          type="range"
+          min={0}
+          max={2}
+          step={0.1}
+          value={options.temperature ?? 1}
+          onChange={(e) => update({ temperature: parseFloat(e.target.value) })}
+          className="w-full accent-pink-500"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ImageSettingsPanel;
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { ChevronRight, Download } from 'lucide-react';
+import CopyButton from './CopyButton';
+import { copyText } from '../utils/clipboard';
+import { downloadBlob } from '../utils/download';
+
+interface JsonTreeProps {
+  value: unknown;
+  fileName?: string;
+}
+
+interface JsonNodeProps {
+  name?: string;
+  value: unknown;
+  depth: number;
+}
+
+// Nodes below this depth start collapsed so large replies stay readable
+const EXPANDED_DEPTH = 2;
+
+const formatPrimitive = (value: unknown): { text: string; className: string } => {
+  if (value === null) return { text: 'null', className: 'text-zinc-500' };
+  if (typeof value === 'string') return { text: JSON.stringify(value), className: 'text-emerald-300' };
+  if (typeof value === 'number') return { text: String(value), className: 'text-sky-300' };
+  if (typeof value === 'boolean') return { text: String(value), className: 'text-amber-300' };
+  return { text: String(value), className: 'text-zinc-300' };
+};
+
+const JsonNode: React.FC<JsonNodeProps> = ({ name, value, depth }) => {
+  const [isOpen, setIsOpen] = useState(depth < EXPANDED_DEPTH);
+  const label = name !== undefined && <span className="text-indigo-300">{name}: </span>;
+
+  if (value === null || typeof value !== 'object') {
+    const { text, className } = formatPrimitive(value);
+    return (
+      <div className="pl-4 break-all">
+        {label}<span className={className}>{text}</span>
+      </div>
+    );
+  }
+
+  const isArray = Array.isArray(value);
+  const entries: [string, unknown][] = isArray
+    ? (value as unknown[]).map((item, index) => [String(index), item])
+    : Object.entries(value as Record<string, unknown>);
+  const [open, close] = isArray ? ['[', ']'] : ['{', '}'];
+
+  return (
+    <div>
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="flex items-center text-left hover:bg-white/5 rounded"
+      >
+        <ChevronRight size={14} className={`shrink-0 text-zinc-500 transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+        {label}
+        <span className="text-zinc-400">
+          {open}
+          {!isOpen && <span className="text-zinc-500"> {entries.length} {isArray ? 'items' : 'keys'} {close}</span>}
+        </span>
+      </button>
+      {isOpen && (
+        <>
+          <div className="ml-2 border-l border-white/10">
+            {entries.map(([key, item]) => (
+              <JsonNode key={key} name={isArray ? undefined : key} value={item} depth={depth + 1} />
+            ))}
+          </div>
+          <div className="pl-4 text-zinc-400">{close}</div>
+        </>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Collapsible view of a structured output reply, with copy and download.
+ */
+const JsonTree: React.FC<JsonTreeProps> = ({ value, fileName = 'response.json' }) => {
+  const json = JSON.stringify(value, null, 2);
+
+  const handleDownload = () => downloadBlob(new Blob([json], { type: 'application/json' }), fileName);
+
+  return (
+    <div className="rounded-lg bg-zinc-950 border border-white/10 text-xs font-mono">
+      <div className="flex items-center justify-between px-3 py-1.5 border-b border-white/10 font-sans">
+        <span className="text-[10px] uppercase tracking-wider text-zinc-500">JSON</span>
+        <div className="flex gap-1">
+          <CopyButton
+            onCopy={() => copyText(json)}
+            title="Copy JSON"
+            className="p-1 rounded text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors"
+          />
+          <button
+            onClick={handleDownload}
+            className="p-1 rounded text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors"
+            title="Download JSON"
+          >
+            <Download size={14} />
+          </button>
+        </div>
+      </div>
+      <div className="p-2 overflow-x-auto">
+        <JsonNode value={value} depth={0} />
+      </div>
+    </div>
+  );
+};
+
+export default JsonTree;
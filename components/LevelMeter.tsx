@@ -0,0 +1,59 @@
+import React, { useEffect, useRef } from 'react';
+
+interface LevelMeterProps {
+  analyser: AnalyserNode | null;
+  barCount?: number;
+  className?: string; // Bar color classes
+}
+
+/**
+ * Frequency-band level bars driven by an AnalyserNode.
+ * Bar heights are written straight to the DOM each animation frame to avoid re-rendering.
+ */
+const LevelMeter: React.FC<LevelMeterProps> = ({ analyser, barCount = 5, className = 'bg-blue-500' }) => {
+  const barsRef = useRef<(HTMLDivElement | null)[]>([]);
+
+  useEffect(() => {
+    const bars = barsRef.current;
+    if (!analyser) {
+      bars.forEach(bar => { if (bar) bar.style.height = '10%'; });
+      return;
+    }
+
+    const bins = new Uint8Array(analyser.frequencyBinCount);
+    // Speech energy sits in the lower part of the spectrum, so only spread bars over that
+    const usableBins = Math.max(barCount, Math.floor(bins.length / 4));
+    const binsPerBar = Math.floor(usableBins / barCount);
+    let frame = 0;
+
+    const draw = () => {
+      analyser.getByteFrequencyData(bins);
+      for (let bar = 0; bar < barCount; bar++) {
+        let sum = 0;
+        for (let i = bar * binsPerBar; i < (bar + 1) * binsPerBar; i++) sum += bins[i];
+        const level = sum / binsPerBar / 255;
+        const el = bars[bar];
+        if (el) el.style.height = `${Math.max(10, Math.round(level * 100))}%`;
+      }
+      frame = requestAnimationFrame(draw);
+    };
+    draw();
+
+    return () => cancelAnimationFrame(frame);
+  }, [analyser, barCount]);
+
+  return (
+    <div className="flex gap-1 h-6 items-center">
+      {Array.from({ length: barCount }, (_, i) => (
+        <div
+          key={i}
+          ref={el => { barsRef.current[i] = el; }}
+          className={`w-1 rounded-full transition-[height] duration-75 ${className}`}
+          style={{ height: '10%' }}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default LevelMeter;
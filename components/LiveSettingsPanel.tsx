@@ -0,0 +1,197 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Plus, Trash2, Play, Square, Loader2 } from 'lucide-react';
+import { LivePreset } from '../types';
+import { LIVE_MODELS, LIVE_VOICES, LIVE_LANGUAGES, DEFAULT_LIVE_PRESET } from '../services/livePresets';
+import { isAbortError } from '../services/geminiService';
+import { provider } from '../services/providers';
+import { base64ToUint8Array, decodeAudioData } from '../utils/audioUtils';
+
+const PREVIEW_TEXT = "Hi! This is how I'll sound in your live conversations.";
+const PREVIEW_SAMPLE_RATE = 24000;
+
+interface LiveSettingsPanelProps {
+  presets: LivePreset[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onUpdate: (changes: Partial<LivePreset>) => void;
+  onCreate: (name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const LiveSettingsPanel: React.FC<LiveSettingsPanelProps> = ({
+  presets,
+  activeId,
+  onSelect,
+  onUpdate,
+  onCreate,
+  onDelete
+}) => {
+  const [previewState, setPreviewState] = useState<'idle' | 'loading' | 'playing'>('idle');
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const previewAbortRef = useRef<AbortController | null>(null);
+  const previewCtxRef = useRef<AudioContext | null>(null);
+
+  const preset = presets.find(p => p.id === activeId) || presets[0];
+
+  const stopPreview = () => {
+    previewAbortRef.current?.abort();
+    previewAbortRef.current = null;
+    previewCtxRef.current?.close();
+    previewCtxRef.current = null;
+    setPreviewState('idle');
+  };
+
+  const handlePreview = async () => {
+    stopPreview();
+    setPreviewError(null);
+    setPreviewState('loading');
+    const controller = new AbortController();
+    previewAbortRef.current = controller;
+
+    try {
+      const audio = await provider.previewVoice(preset.voiceName, PREVIEW_TEXT, controller.signal);
+      if (controller.signal.aborted) return;
+
+      const ctx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: PREVIEW_SAMPLE_RATE });
+      previewCtxRef.current = ctx;
+      const buffer = await decodeAudioData(base64ToUint8Array(audio), ctx, PREVIEW_SAMPLE_RATE, 1);
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(ctx.destination);
+      source.onended = () => {
+        if (previewCtxRef.current === ctx) stopPreview();
+      };
+      source.start();
+      setPreviewState('playing');
+    } catch (error) {
+      if (isAbortError(error, controller.signal)) return;
+      setPreviewError("Couldn't load the voice preview.");
+      setPreviewState('idle');
+    }
+  };
+
+  // A preview of the previous voice shouldn't keep playing after switching
+  useEffect(() => {
+    stopPreview();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [preset.voiceName]);
+
+  useEffect(() => stopPreview, []);
+
+  const handleCreate = () => {
+    const name = window.prompt('Name for the new preset', `${preset.name} copy`);
+    if (name?.trim()) onCreate(name.trim());
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete the preset "${preset.name}"?`)) onDelete(preset.id);
+  };
+
+  const isDefault = preset.id === DEFAULT_LIVE_PRESET.id;
+
+  return (
+    <div className="w-full max-w-2xl grid grid-cols-1 md:grid-cols-2 gap-4 p-4 bg-zinc-950/60 rounded-xl border border-zinc-800">
+      <div className="space-y-2 md:col-span-2">
+        <label className="text-xs font-medium text-zinc-400 uppercase tracking-wider">Preset</label>
+        <div className="flex gap-2">
+          <select
+            value={preset.id}
+            onChange={(e) => onSelect(e.target.value)}
+            className="flex-1 min-w-0 bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-white outline-none focus:border-blue-500"
+          >
+            {presets.map(p => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={preset.name}
+            onChange={(e) => onUpdate({ name: e.target.value })}
+            disabled={isDefault}
+            placeholder="Preset name"
+            className="flex-1 min-w-0 bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-white placeholder-zinc-600 outline-none focus:border-blue-500 disabled:text-zinc-500"
+          />
+          <button
+            onClick={handleCreate}
+            className="px-3 rounded-lg bg-zinc-800 text-zinc-400 hover:text-white transition-colors"
+            title="Save as a new preset"
+          >
+            <Plus size={16} />
+          </button>
+          <button
+            onClick={handleDelete}
+            disabled={isDefault}
+            className="px-3 rounded-lg bg-zinc-800 text-zinc-400 hover:text-red-400 disabled:text-zinc-700 disabled:cursor-not-allowed transition-colors"
+            title={isDefault ? 'The default preset cannot be deleted' : 'Delete preset'}
+          >
+            <Trash2 size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-xs font-medium text-zinc-400 uppercase tracking-wider">Voice</label>
+        <div className="flex gap-2">
+          <select
+            value={preset.voiceName}
+            onChange={(e) => onUpdate({ voiceName: e.target.value })}
+            className="flex-1 min-w-0 bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-white outline-none focus:border-blue-500"
+          >
+            {LIVE_VOICES.map(voice => (
+              <option key={voice.name} value={voice.name}>{voice.name} · {voice.description}</option>
+            ))}
+          </select>
+          <button
+            onClick={previewState === 'idle' ? handlePreview : stopPreview}
+            className="px-3 rounded-lg bg-zinc-800 text-zinc-400 hover:text-white transition-colors"
+            title={previewState === 'idle' ? 'Preview voice' : 'Stop preview'}
+          >
+            {previewState === 'loading' ? <Loader2 size={16} className="animate-spin" />
+              : previewState === 'playing' ? <Square size={16} />
+              : <Play size={16} />}
+          </button>
+        </div>
+        {previewError && <p className="text-xs text-red-400">{previewError}</p>}
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-xs font-medium text-zinc-400 uppercase tracking-wider">Language</label>
+        <select
+          value={preset.languageCode}
+          onChange={(e) => onUpdate({ languageCode: e.target.value })}
+          className="w-full bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-white outline-none focus:border-blue-500"
+        >
+          {LIVE_LANGUAGES.map(language => (
+            <option key={language.code} value={language.code}>{language.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-2 md:col-span-2">
+        <label className="text-xs font-medium text-zinc-400 uppercase tracking-wider">Model</label>
+        <select
+          value={preset.model}
+          onChange={(e) => onUpdate({ model: e.target.value })}
+          className="w-full bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-white outline-none focus:border-blue-500"
+        >
+          {LIVE_MODELS.map(model => (
+            <option key={model.id} value={model.id}>{model.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-2 md:col-span-2">
+        <label className="text-xs font-medium text-zinc-400 uppercase tracking-wider">System prompt</label>
+        <textarea
+          value={preset.systemInstruction}
+          onChange={(e) => onUpdate({ systemInstruction: e.target.value })}
+          rows={3}
+          placeholder="How should the assistant behave?"
+          className="w-full bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-white placeholder-zinc-600 outline-none focus:border-blue-500 resize-y"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default LiveSettingsPanel;
@@ -1,32 +1,172 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
-import { Mic, MicOff, Radio, Activity, Volume2 } from 'lucide-react';
-import { getAIClient } from '../services/geminiService';
-import { createPCM16Blob, decodeAudioData, base64ToUint8Array } from '../utils/audioUtils';
+import { Blob as MediaBlob, LiveServerMessage, Modality } from '@google/genai';
+import { Mic, MicOff, Radio, Activity, Volume2, Settings2, ChevronDown, ChevronUp, Video, MonitorUp, X, RefreshCw, Hand, Circle, Download, Trash2 } from 'lucide-react';
+import { provider, LiveSession } from '../services/providers';
+import { createToolCallRecord, executeToolCall, getFunctionDeclarations, toFunctionResponse } from '../services/tools';
+import { encodePCM16Blob, decodeAudioData, base64ToUint8Array, computeRMS, PCM16_INPUT_RATE } from '../utils/audioUtils';
+import { createLiveRecorder, LiveRecorder } from '../utils/liveRecorder';
+import { startAudioCapture, AudioCapture } from '../utils/audioCapture';
+import { requestVideoStream, startVideoCapture, VideoCapture, VideoSource } from '../utils/videoCapture';
+import { downloadBlob } from '../utils/download';
+import { createConversation, saveConversation, setActiveConversationId } from '../services/chatStore';
+import {
+  loadLivePresets,
+  saveLivePresets,
+  createLivePreset,
+  getActiveLivePresetId,
+  setActiveLivePresetId,
+  DEFAULT_LIVE_PRESET
+} from '../services/livePresets';
+import { ChatMessage, LivePreset, TranscriptEntry } from '../types';
+import TranscriptPanel from './TranscriptPanel';
+import LevelMeter from './LevelMeter';
+import LiveSettingsPanel from './LiveSettingsPanel';
 
-const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+// Mic RMS above this counts as the user speaking
+const SPEECH_RMS_THRESHOLD = 0.02;
+// Number of latency samples in the rolling average
+const LATENCY_WINDOW = 10;
+const FRAME_RATE_OPTIONS = [0.5, 1, 2, 4];
+// Reconnect backoff: 0.5 s, 1 s, 2 s, ... capped at 8 s
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 8000;
+const MAX_RECONNECT_ATTEMPTS = 6;
+// Mic audio kept while reconnecting: 40 ms frames, so about 20 seconds
+const MAX_BUFFERED_AUDIO_FRAMES = 500;
 
-const LiveView: React.FC = () => {
+type ActivityState = 'listening' | 'user-speaking' | 'model-speaking';
+type InputMode = 'open' | 'push-to-talk' | 'muted';
+
+const INPUT_MODES: { id: InputMode; label: string; icon: typeof Mic }[] = [
+  { id: 'open', label: 'Open mic', icon: Mic },
+  { id: 'push-to-talk', label: 'Push to talk', icon: Hand },
+  { id: 'muted', label: 'Mute', icon: MicOff },
+];
+
+interface LiveViewProps {
+  // Called after the transcript is saved as a conversation, to switch to the chat
+  onContinueInChat?: () => void;
+}
+
+const LiveView: React.FC<LiveViewProps> = ({ onContinueInChat }) => {
   const [isActive, setIsActive] = useState(false);
-  const [status, setStatus] = useState<'disconnected' | 'connecting' | 'connected' | 'error'>('disconnected');
+  const [status, setStatus] = useState<'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'error'>('disconnected');
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
+  const [inputAnalyser, setInputAnalyser] = useState<AnalyserNode | null>(null);
+  const [outputAnalyser, setOutputAnalyser] = useState<AnalyserNode | null>(null);
+  const [activity, setActivity] = useState<ActivityState>('listening');
+  const [latencies, setLatencies] = useState<number[]>([]);
+  const [sampleRates, setSampleRates] = useState<{ input: number; output: number } | null>(null);
+  const [presets, setPresets] = useState<LivePreset[]>(loadLivePresets);
+  const [activePresetId, setActivePresetId] = useState<string>(getActiveLivePresetId);
+  const [showSettings, setShowSettings] = useState(false);
+  const [videoSource, setVideoSource] = useState<VideoSource | null>(null);
+  const [videoStream, setVideoStream] = useState<MediaStream | null>(null);
+  const [framesPerSecond, setFramesPerSecond] = useState(1);
+  const [inputMode, setInputMode] = useState<InputMode>('open');
+  const [isTalking, setIsTalking] = useState(false);
+  const [recording, setRecording] = useState<LiveRecorder | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordingSeconds, setRecordingSeconds] = useState(0);
+
+  const activePreset = presets.find(p => p.id === activePresetId) || presets[0];
   
   // Audio Context Refs
   const inputContextRef = useRef<AudioContext | null>(null);
   const outputContextRef = useRef<AudioContext | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
-  const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
+  const captureRef = useRef<AudioCapture | null>(null);
+  const videoCaptureRef = useRef<VideoCapture | null>(null);
+  const videoPreviewRef = useRef<HTMLVideoElement>(null);
   
   // Playback Refs
   const nextStartTimeRef = useRef<number>(0);
   const scheduledSourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+  // Playback is routed through this node so the output analyser sees it
+  const outputNodeRef = useRef<AudioNode | null>(null);
+
+  // Latency Refs: time of the last detected user speech, and whether a reply is pending
+  const lastSpeechAtRef = useRef<number>(0);
+  const awaitingReplyRef = useRef(false);
   
   // Session Ref
   // We store the session promise/controller to close it later
-  const sessionRef = useRef<{ close: () => void } | null>(null);
+  const sessionRef = useRef<LiveSession | null>(null);
+  // Bumped on every stop so callbacks from a cancelled or superseded attempt are ignored
+  const attemptRef = useRef(0);
+  // Bumped on every connection within an attempt, so a dropped socket's callbacks are ignored
+  const connectionRef = useRef(0);
+
+  // Reconnect Refs
+  const sessionPresetRef = useRef<LivePreset>(DEFAULT_LIVE_PRESET);
+  const resumptionHandleRef = useRef<string | null>(null);
+  const reconnectAttemptsRef = useRef(0);
+  const reconnectTimerRef = useRef<number | null>(null);
+  const pendingAudioRef = useRef<MediaBlob[]>([]);
+  const isActiveRef = useRef(false);
+  isActiveRef.current = isActive;
+  // Replaces the current connection with a new one that resumes the session
+  const switchConnectionRef = useRef<(() => void) | null>(null);
+
+  // Input Mode Refs, read from the capture callback
+  const inputModeRef = useRef<InputMode>('open');
+  const isTalkingRef = useRef(false);
+  // Whether the current connection was opened with server-side activity detection off
+  const manualActivityRef = useRef(false);
+
+  // Set only while recording; the finished recording stays in state for export
+  const recorderRef = useRef<LiveRecorder | null>(null);
+
+  // Transcription arrives in fragments; extend the open entry until its turn completes
+  const appendTranscript = useCallback((role: TranscriptEntry['role'], text: string) => {
+    setTranscript(prev => {
+      const last = prev[prev.length - 1];
+      if (last && last.role === role && !last.isFinal) {
+        return [...prev.slice(0, -1), { ...last, text: last.text + text }];
+      }
+      // A new speaker closes the previous entry
+      const closed = last && !last.isFinal ? [...prev.slice(0, -1), { ...last, isFinal: true }] : prev;
+      return [...closed, {
+        id: `tr-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        role,
+        text,
+        timestamp: Date.now(),
+        isFinal: false
+      }];
+    });
+  }, []);
+
+  const finalizeTranscript = useCallback(() => {
+    setTranscript(prev => prev.some(entry => !entry.isFinal)
+      ? prev.map(entry => entry.isFinal ? entry : { ...entry, isFinal: true })
+      : prev);
+  }, []);
+
+  const stopVideo = useCallback(() => {
+    videoCaptureRef.current?.stop();
+    videoCaptureRef.current = null;
+    setVideoSource(null);
+    setVideoStream(null);
+  }, []);
 
   const stopSession = useCallback(() => {
+    attemptRef.current++;
+    stopVideo();
+
+    if (reconnectTimerRef.current !== null) {
+      window.clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    pendingAudioRef.current = [];
+    resumptionHandleRef.current = null;
+    switchConnectionRef.current = null;
+    isTalkingRef.current = false;
+    setIsTalking(false);
+    if (recorderRef.current) setRecordingSeconds(recorderRef.current.getDuration());
+    recorderRef.current = null;
+    setIsRecording(false);
+
     // 1. Close API Session
     if (sessionRef.current) {
       try {
@@ -44,13 +184,9 @@ const LiveView: React.FC = () => {
     }
 
     // 3. Disconnect Input Nodes
-    if (sourceRef.current) {
-      sourceRef.current.disconnect();
-      sourceRef.current = null;
-    }
-    if (processorRef.current) {
-      processorRef.current.disconnect();
-      processorRef.current = null;
+    if (captureRef.current) {
+      captureRef.current.stop();
+      captureRef.current = null;
     }
     if (inputContextRef.current) {
       inputContextRef.current.close();
@@ -70,139 +206,527 @@ const LiveView: React.FC = () => {
       outputContextRef.current = null;
     }
 
+    outputNodeRef.current = null;
+    setInputAnalyser(null);
+    setOutputAnalyser(null);
+    setActivity('listening');
+    awaitingReplyRef.current = false;
+
     setIsActive(false);
     setStatus('disconnected');
     nextStartTimeRef.current = 0;
-  }, []);
+    finalizeTranscript();
+  }, [finalizeTranscript, stopVideo]);
+
+  /**
+   * Opens a Live connection for the current attempt. Called once per session and
+   * again for every reconnect; audio contexts, capture and the transcript carry over.
+   */
+  const connectLive = (attempt: number) => {
+    const isCurrent = () => attemptRef.current === attempt;
+    const preset = sessionPresetRef.current;
+    const connection = ++connectionRef.current;
+    const isCurrentConnection = () => isCurrent() && connectionRef.current === connection;
+
+    // Retires this connection; false if something else already did
+    const closeConnection = () => {
+      if (!isCurrentConnection()) return false;
+      connectionRef.current++;
+      const session = sessionRef.current;
+      sessionRef.current = null;
+      try {
+        session?.close();
+      } catch (e) { /* already closed */ }
+      return true;
+    };
+
+    // Closing, errors and go-away all lead here; only the first one per connection counts
+    const handleDrop = (reason: string) => {
+      if (closeConnection()) scheduleReconnect(attempt, reason);
+    };
+
+    // A deliberate switch isn't a failure, so it skips the backoff and the retry budget
+    switchConnectionRef.current = () => {
+      if (closeConnection()) connectLive(attempt);
+    };
+
+    // Push-to-talk marks turns with activityStart/activityEnd, which requires
+    // turning the server's voice activity detection off for the whole connection
+    const manualActivity = inputModeRef.current === 'push-to-talk';
+    manualActivityRef.current = manualActivity;
+
+    // A turn cut off by the previous connection won't be continued on this one
+    finalizeTranscript();
+
+    const sessionPromise = provider.connectLive({
+      model: preset.model,
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: preset.voiceName } },
+          ...(preset.languageCode ? { languageCode: preset.languageCode } : {}),
+        },
+        ...(preset.systemInstruction.trim() ? { systemInstruction: preset.systemInstruction } : {}),
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        tools: [{ functionDeclarations: getFunctionDeclarations() }],
+        // Without a handle this starts a resumable session; with one it resumes it
+        sessionResumption: { handle: resumptionHandleRef.current || undefined },
+        ...(manualActivity ? { realtimeInputConfig: { automaticActivityDetection: { disabled: true } } } : {}),
+      },
+      callbacks: {
+        onmessage: async (message: LiveServerMessage) => {
+           if (!isCurrentConnection()) return;
+
+           // Handle Session Resumption: keep the latest handle for reconnecting
+           const resumption = message.sessionResumptionUpdate;
+           if (resumption?.resumable && resumption.newHandle) {
+             resumptionHandleRef.current = resumption.newHandle;
+           }
+
+           // The server is about to close the socket; move to a new one before it does
+           if (message.goAway) {
+             handleDrop("Server requested a reconnect.");
+             return;
+           }
+
+           // Handle Tool Calls: run them locally and answer in one response
+           const functionCalls = message.toolCall?.functionCalls;
+           if (functionCalls?.length) {
+             Promise.all(functionCalls.map(call => executeToolCall(createToolCallRecord(call))))
+               .then(records => {
+                 if (!isCurrentConnection()) return;
+                 return sessionPromise.then(session => session.sendToolResponse({
+                   functionResponses: records.map(record => ({ id: record.id, ...toFunctionResponse(record) })),
+                 }));
+               })
+               .catch(err => {
+                 console.error("Failed to answer tool calls", err);
+                 if (!isCurrentConnection()) return;
+                 const names = functionCalls.map(call => call.name || 'unknown').join(', ');
+                 setErrorMessage(`Tool call failed: ${names}. The model didn't get a result.`);
+               });
+           }
+
+           // Handle Transcription
+           const inputText = message.serverContent?.inputTranscription?.text;
+           if (inputText) appendTranscript('user', inputText);
+           const outputText = message.serverContent?.outputTranscription?.text;
+           if (outputText) appendTranscript('model', outputText);
+           if (message.serverContent?.turnComplete || message.serverContent?.interrupted) {
+             finalizeTranscript();
+           }
+
+           const outputCtx = outputContextRef.current;
+           if (!outputCtx) return;
+
+           // Handle Audio Output
+           const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+           if (base64Audio) {
+             try {
+               const uint8 = base64ToUint8Array(base64Audio);
+               const audioBuffer = await decodeAudioData(uint8, outputCtx, 24000, 1);
+               
+               // Latency: end of the user's speech to the first audio of the reply
+               if (awaitingReplyRef.current) {
+                 awaitingReplyRef.current = false;
+                 const latency = performance.now() - lastSpeechAtRef.current;
+                 setLatencies(prev => [...prev.slice(-(LATENCY_WINDOW - 1)), latency]);
+               }
+
+               const source = outputCtx.createBufferSource();
+               source.buffer = audioBuffer;
+               source.connect(outputNodeRef.current || outputCtx.destination);
+               
+               // Schedule playback
+               const currentTime = outputCtx.currentTime;
+               if (nextStartTimeRef.current < currentTime) {
+                 nextStartTimeRef.current = currentTime;
+               }
+               
+               source.start(nextStartTimeRef.current);
+               recorderRef.current?.addOutput(audioBuffer.getChannelData(0), nextStartTimeRef.current);
+               nextStartTimeRef.current += audioBuffer.duration;
+               
+               scheduledSourcesRef.current.add(source);
+               source.onended = () => {
+                 scheduledSourcesRef.current.delete(source);
+               };
+             } catch (err) {
+               console.error("Error decoding audio", err);
+             }
+           }
+
+           // Handle Interruption
+           if (message.serverContent?.interrupted) {
+             scheduledSourcesRef.current.forEach(src => {
+               try { src.stop(); } catch(e){}
+             });
+             scheduledSourcesRef.current.clear();
+             nextStartTimeRef.current = 0;
+             recorderRef.current?.truncateOutput(outputCtx.currentTime);
+           }
+        },
+        onclose: (e) => {
+          console.log("Live session closed", e);
+          handleDrop("Connection closed.");
+        },
+        onerror: (e) => {
+          console.error("Live session error", e);
+          handleDrop("Connection error occurred.");
+        }
+      }
+    });
+
+    sessionPromise.then(session => {
+      if (!isCurrentConnection()) {
+        // Stopped or dropped before the socket finished connecting
+        session.close();
+        return;
+      }
+      sessionRef.current = session;
+      reconnectAttemptsRef.current = 0;
+      setStatus('connected');
+      setIsActive(true);
+
+      // Replay the mic audio captured while there was no connection. In push-to-talk
+      // the activity markers sent meanwhile were lost, so they are re-sent around it.
+      const buffered = pendingAudioRef.current;
+      pendingAudioRef.current = [];
+      const reopenActivity = manualActivity && (buffered.length > 0 || isTalkingRef.current);
+      if (reopenActivity) session.sendRealtimeInput({ activityStart: {} });
+      buffered.forEach(media => session.sendRealtimeInput({ media }));
+      if (reopenActivity && !isTalkingRef.current) session.sendRealtimeInput({ activityEnd: {} });
+    }).catch(err => {
+      console.error("Connection failed", err);
+      handleDrop("Failed to connect to Gemini Live.");
+    });
+  };
+
+  /**
+   * Retries the connection with exponential backoff, resuming the session when the
+   * server has handed out a resumption handle. Gives up after MAX_RECONNECT_ATTEMPTS.
+   */
+  const scheduleReconnect = (attempt: number, reason: string) => {
+    if (attemptRef.current !== attempt) return;
+
+    // Nothing to reconnect if the very first connection never came up
+    if (!isActiveRef.current || reconnectAttemptsRef.current >= MAX_RECONNECT_ATTEMPTS) {
+      stopSession();
+      setErrorMessage(isActiveRef.current ? `${reason} Reconnecting failed.` : reason);
+      setStatus('error');
+      return;
+    }
+
+    const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttemptsRef.current);
+    reconnectAttemptsRef.current++;
+    setStatus('reconnecting');
+    reconnectTimerRef.current = window.setTimeout(() => {
+      reconnectTimerRef.current = null;
+      if (attemptRef.current === attempt) connectLive(attempt);
+    }, delay);
+  };
+
+  const isMicOpen = () =>
+    inputModeRef.current === 'open' || (inputModeRef.current === 'push-to-talk' && isTalkingRef.current);
+
+  const startTalking = () => {
+    if (inputModeRef.current !== 'push-to-talk' || isTalkingRef.current) return;
+    isTalkingRef.current = true;
+    setIsTalking(true);
+    sessionRef.current?.sendRealtimeInput({ activityStart: {} });
+  };
+
+  const stopTalking = () => {
+    if (!isTalkingRef.current) return;
+    isTalkingRef.current = false;
+    setIsTalking(false);
+    sessionRef.current?.sendRealtimeInput({ activityEnd: {} });
+    // The reply is due from the moment the turn is handed over
+    lastSpeechAtRef.current = performance.now();
+    awaitingReplyRef.current = true;
+  };
+
+  const handleInputModeChange = (mode: InputMode) => {
+    const previous = inputModeRef.current;
+    if (mode === previous) return;
+
+    stopTalking();
+    // Let server-side activity detection close the turn that was in progress
+    if (previous === 'open') sessionRef.current?.sendRealtimeInput({ audioStreamEnd: true });
+
+    inputModeRef.current = mode;
+    setInputMode(mode);
+
+    // Activity detection is fixed per connection, so moving to or from push-to-talk
+    // resumes the session on a new one
+    if (isActiveRef.current && mode !== 'muted' && (mode === 'push-to-talk') !== manualActivityRef.current) {
+      switchConnectionRef.current?.();
+    }
+  };
+
+  const startRecording = () => {
+    const outputCtx = outputContextRef.current;
+    if (!outputCtx) return;
+    const recorder = createLiveRecorder(() => outputCtx.currentTime, outputCtx.sampleRate);
+    recorderRef.current = recorder;
+    setRecording(recorder);
+    setRecordingSeconds(0);
+    setIsRecording(true);
+  };
+
+  const stopRecording = () => {
+    if (recorderRef.current) setRecordingSeconds(recorderRef.current.getDuration());
+    recorderRef.current = null;
+    setIsRecording(false);
+  };
+
+  const handleDownloadRecording = (mode: 'mix' | 'tracks') => {
+    if (!recording) return;
+    downloadBlob(
+      mode === 'mix' ? recording.exportMix() : recording.exportTracks(),
+      `gemini-live-${Date.now()}${mode === 'tracks' ? '-tracks' : ''}.wav`
+    );
+  };
 
   const startSession = async () => {
     setErrorMessage(null);
     setStatus('connecting');
+    const attempt = ++attemptRef.current;
+    const isCurrent = () => attemptRef.current === attempt;
+    sessionPresetRef.current = activePreset;
+    resumptionHandleRef.current = null;
+    setTranscript([]);
+    reconnectAttemptsRef.current = 0;
+    pendingAudioRef.current = [];
     
     try {
       // Initialize Audio Contexts
-      const inputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
+      // Input runs at the device rate; the capture worklet resamples to 16 kHz
+      const inputCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
       const outputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
       
       inputContextRef.current = inputCtx;
       outputContextRef.current = outputCtx;
+      setSampleRates({ input: inputCtx.sampleRate, output: outputCtx.sampleRate });
+      setLatencies([]);
+
+      const outAnalyser = outputCtx.createAnalyser();
+      outAnalyser.fftSize = 256;
+      outAnalyser.connect(outputCtx.destination);
+      outputNodeRef.current = outAnalyser;
+      setOutputAnalyser(outAnalyser);
 
       // Get Microphone Access
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      if (!isCurrent()) {
+        // Cancelled while waiting for the permission prompt
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
       streamRef.current = stream;
 
-      const ai = getAIClient();
-
-      // Connect to Live API
-      const sessionPromise = ai.live.connect({
-        model: LIVE_MODEL,
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } },
-          },
-          systemInstruction: "You are a helpful, witty, and concise AI assistant.",
-        },
-        callbacks: {
-          onopen: () => {
-            console.log("Live session opened");
-            setStatus('connected');
-            setIsActive(true);
-
-            // Setup Input Processing
-            const source = inputCtx.createMediaStreamSource(stream);
-            const processor = inputCtx.createScriptProcessor(4096, 1, 1);
-            
-            sourceRef.current = source;
-            processorRef.current = processor;
-
-            processor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              const pcmBlob = createPCM16Blob(inputData);
-              
-              // Send data only when session is established
-              sessionPromise.then(session => {
-                  session.sendRealtimeInput({ media: pcmBlob });
-              });
-            };
-
-            source.connect(processor);
-            processor.connect(inputCtx.destination);
-          },
-          onmessage: async (message: LiveServerMessage) => {
-             const outputCtx = outputContextRef.current;
-             if (!outputCtx) return;
-
-             // Handle Audio Output
-             const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-             if (base64Audio) {
-               try {
-                 const uint8 = base64ToUint8Array(base64Audio);
-                 const audioBuffer = await decodeAudioData(uint8, outputCtx, 24000, 1);
-                 
-                 const source = outputCtx.createBufferSource();
-                 source.buffer = audioBuffer;
-                 source.connect(outputCtx.destination);
-                 
-                 // Schedule playback
-                 const currentTime = outputCtx.currentTime;
-                 if (nextStartTimeRef.current < currentTime) {
-                   nextStartTimeRef.current = currentTime;
-                 }
-                 
-                 source.start(nextStartTimeRef.current);
-                 nextStartTimeRef.current += audioBuffer.duration;
-                 
-                 scheduledSourcesRef.current.add(source);
-                 source.onended = () => {
-                   scheduledSourcesRef.current.delete(source);
-                 };
-               } catch (err) {
-                 console.error("Error decoding audio", err);
-               }
-             }
-
-             // Handle Interruption
-             if (message.serverContent?.interrupted) {
-               console.log("Interrupted!");
-               scheduledSourcesRef.current.forEach(src => {
-                 try { src.stop(); } catch(e){}
-               });
-               scheduledSourcesRef.current.clear();
-               nextStartTimeRef.current = 0;
-             }
-          },
-          onclose: (e) => {
-            console.log("Live session closed", e);
-            stopSession();
-          },
-          onerror: (e) => {
-            console.error("Live session error", e);
-            setErrorMessage("Connection error occurred.");
-            stopSession();
-            setStatus('error');
-          }
+      // Setup Input Processing
+      // Frames go straight to the open session; while (re)connecting they are buffered
+      const capture = await startAudioCapture(inputCtx, stream, (pcm) => {
+        if (!isMicOpen()) return;
+        recorderRef.current?.addInput(pcm, PCM16_INPUT_RATE);
+        const media = encodePCM16Blob(pcm);
+        const session = sessionRef.current;
+        if (session) {
+          session.sendRealtimeInput({ media });
+        } else {
+          pendingAudioRef.current.push(media);
+          if (pendingAudioRef.current.length > MAX_BUFFERED_AUDIO_FRAMES) pendingAudioRef.current.shift();
         }
       });
+      if (!isCurrent()) {
+        capture.stop();
+        return;
+      }
+      captureRef.current = capture;
 
-      // Store session to allow closing
-      // Note: We can't synchronously get the session object, but we can wait for the promise if we needed to access methods immediately.
-      // However, to store the 'close' capability, we wrap the result. 
-      // The SDK doesn't expose a direct `abort` on the promise, but the session object has `close`.
-      sessionPromise.then(session => {
-        sessionRef.current = session as any; 
-      }).catch(err => {
-        console.error("Connection failed", err);
-        setErrorMessage("Failed to connect to Gemini Live.");
-        setStatus('error');
-      });
+      const inAnalyser = inputCtx.createAnalyser();
+      inAnalyser.fftSize = 256;
+      capture.source.connect(inAnalyser);
+      setInputAnalyser(inAnalyser);
 
+      // Connect to Live API
+      connectLive(attempt);
     } catch (err) {
       console.error("Failed to start session:", err);
+      if (!isCurrent()) return;
+      stopSession();
       setErrorMessage("Microphone access denied or API unavailable.");
       setStatus('error');
     }
   };
+  const handleSaveTranscript = async () => {
+    const messages: ChatMessage[] = transcript
+      .filter(entry => entry.text.trim())
+      .map(entry => ({
+        id: entry.id,
+        role: entry.role,
+        text: entry.text.trim(),
+        timestamp: entry.timestamp
+      }));
+    if (messages.length === 0) return;
+
+    const conversation = {
+      ...createConversation(messages),
+      title: `Voice session ${new Date(messages[0].timestamp).toLocaleString()}`
+    };
+
+    try {
+      await saveConversation(conversation);
+      setActiveConversationId(conversation.id);
+      onContinueInChat?.();
+    } catch (err) {
+      console.error("Failed to save transcript", err);
+      setErrorMessage("Could not save the transcript.");
+    }
+  };
+
+  const startVideo = async (source: VideoSource) => {
+    stopVideo();
+    setErrorMessage(null);
+    const attempt = attemptRef.current;
+
+    try {
+      const stream = await requestVideoStream(source);
+      if (attemptRef.current !== attempt) {
+        // The session ended while the picker was open
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+
+      const capture = await startVideoCapture(stream, (frame) => {
+        sessionRef.current?.sendRealtimeInput({ media: { data: frame, mimeType: 'image/jpeg' } });
+      }, { framesPerSecond });
+      if (attemptRef.current !== attempt) {
+        capture.stop();
+        return;
+      }
+
+      videoCaptureRef.current = capture;
+      setVideoSource(source);
+      setVideoStream(stream);
+
+      // The browser's own "Stop sharing" button ends the track
+      stream.getVideoTracks()[0]?.addEventListener('ended', () => {
+        if (videoCaptureRef.current === capture) stopVideo();
+      });
+    } catch (err) {
+      console.error("Failed to start video capture", err);
+      if (attemptRef.current !== attempt) return;
+      // Dismissing the picker is not an error worth reporting
+      if (err instanceof Error && err.name === 'NotAllowedError') return;
+      setErrorMessage(source === 'camera' ? "Could not access the camera." : "Could not start screen sharing.");
+    }
+  };
+
+  const handleSelectPreset = (id: string) => {
+    setActivePresetId(id);
+    setActiveLivePresetId(id);
+  };
+
+  const handleUpdatePreset = (changes: Partial<LivePreset>) => {
+    setPresets(prev => prev.map(p => p.id === activePreset.id ? { ...p, ...changes } : p));
+  };
+
+  const handleCreatePreset = (name: string) => {
+    const preset = createLivePreset(name, activePreset);
+    setPresets(prev => [...prev, preset]);
+    handleSelectPreset(preset.id);
+  };
+
+  const handleDeletePreset = (id: string) => {
+    if (id === DEFAULT_LIVE_PRESET.id) return;
+    setPresets(prev => prev.filter(p => p.id !== id));
+    if (id === activePresetId) handleSelectPreset(DEFAULT_LIVE_PRESET.id);
+  };
+
+  useEffect(() => {
+    saveLivePresets(presets);
+  }, [presets]);
+
+  useEffect(() => {
+    if (videoPreviewRef.current) videoPreviewRef.current.srcObject = videoStream;
+  }, [videoStream]);
+
+  // Track who is talking from the mic level and scheduled playback
+  useEffect(() => {
+    if (!inputAnalyser) return;
+
+    const samples = new Float32Array(inputAnalyser.fftSize);
+    let frame = 0;
+    let current: ActivityState = 'listening';
+
+    const tick = () => {
+      inputAnalyser.getFloatTimeDomainData(samples);
+      const modelSpeaking = scheduledSourcesRef.current.size > 0;
+      const userSpeaking = isMicOpen() && computeRMS(samples) > SPEECH_RMS_THRESHOLD;
+
+      // Push-to-talk starts the clock on release instead
+      if (userSpeaking && !modelSpeaking && inputModeRef.current === 'open') {
+        lastSpeechAtRef.current = performance.now();
+        awaitingReplyRef.current = true;
+      }
+
+      const next: ActivityState = modelSpeaking ? 'model-speaking' : userSpeaking ? 'user-speaking' : 'listening';
+      if (next !== current) {
+        current = next;
+        setActivity(next);
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    tick();
+
+    return () => cancelAnimationFrame(frame);
+  }, [inputAnalyser]);
+
+  const lastLatency = latencies[latencies.length - 1];
+  const averageLatency = latencies.length > 0
+    ? latencies.reduce((sum, value) => sum + value, 0) / latencies.length
+    : undefined;
+
+  useEffect(() => {
+    if (!isRecording || !recording) return;
+    const timer = window.setInterval(() => setRecordingSeconds(recording.getDuration()), 500);
+    return () => window.clearInterval(timer);
+  }, [isRecording, recording]);
+
+  const formatDuration = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+  // Hold Space to talk, unless typing in a field
+  useEffect(() => {
+    if (!isActive || inputMode !== 'push-to-talk') return;
+
+    const isTyping = (e: KeyboardEvent) =>
+      e.target instanceof HTMLElement && !!e.target.closest('input, textarea, select, [contenteditable="true"]');
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e)) return;
+      e.preventDefault();
+      if (!e.repeat) startTalking();
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e)) return;
+      e.preventDefault();
+      stopTalking();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', stopTalking);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', stopTalking);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isActive, inputMode]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -213,7 +737,7 @@ const LiveView: React.FC = () => {
   }, []);
 
   return (
-    <div className="flex flex-col items-center justify-center h-full p-6 space-y-8 bg-zinc-900/50 rounded-2xl border border-zinc-800 backdrop-blur-sm">
+    <div className="flex flex-col items-center justify-center h-full p-6 space-y-8 overflow-y-auto bg-zinc-900/50 rounded-2xl border border-zinc-800 backdrop-blur-sm">
       <div className="text-center space-y-2">
         <h2 className="text-3xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-indigo-400">
           Gemini Live
@@ -224,8 +748,8 @@ const LiveView: React.FC = () => {
       <div className="relative group">
         <div className={`absolute -inset-1 bg-gradient-to-r from-blue-600 to-indigo-600 rounded-full blur opacity-25 group-hover:opacity-50 transition duration-1000 group-hover:duration-200 ${isActive ? 'animate-pulse opacity-75' : ''}`}></div>
         <button
-          onClick={isActive ? stopSession : startSession}
-          disabled={status === 'connecting'}
+          onClick={isActive || status === 'connecting' ? stopSession : startSession}
+          title={status === 'connecting' ? 'Cancel connection' : undefined}
           className={`relative w-48 h-48 rounded-full flex items-center justify-center border-4 transition-all duration-300 shadow-2xl ${
             isActive 
               ? 'border-red-500 bg-zinc-900' 
@@ -250,17 +774,182 @@ const LiveView: React.FC = () => {
 
       {isActive && (
         <div className="flex items-center gap-4 px-6 py-3 bg-zinc-950/80 rounded-full border border-zinc-800">
-          <div className="flex gap-1 h-6 items-center">
-             {[...Array(5)].map((_, i) => (
-                <div key={i} className="w-1 bg-blue-500 rounded-full animate-bounce" style={{ height: `${Math.random() * 100}%`, animationDelay: `${i * 0.1}s` }}></div>
-             ))}
+          <div className="flex items-center gap-2" title="Microphone">
+            <Mic className="w-4 h-4 text-blue-400" />
+            <LevelMeter analyser={inputAnalyser} className="bg-blue-500" />
           </div>
-          <span className="text-green-400 font-mono text-sm flex items-center gap-2">
-            <Radio className="w-4 h-4" /> LIVE
+          <div className="flex items-center gap-2" title="Gemini">
+            <LevelMeter analyser={outputAnalyser} className="bg-emerald-500" />
+            <Volume2 className="w-4 h-4 text-emerald-400" />
+          </div>
+          {status === 'reconnecting' ? (
+            <span className="text-amber-400 font-mono text-sm flex items-center gap-2" title="Mic audio is buffered until the connection is back">
+              <RefreshCw className="w-4 h-4 animate-spin" /> RECONNECTING
+            </span>
+          ) : (
+            <span className="text-green-400 font-mono text-sm flex items-center gap-2">
+              <Radio className="w-4 h-4" /> LIVE
+            </span>
+          )}
+          <span className="text-zinc-400 text-xs w-28">
+            {activity === 'model-speaking' && 'Gemini is speaking'}
+            {activity === 'user-speaking' && "You're speaking"}
+            {activity === 'listening' && (
+              inputMode === 'muted' ? 'Muted'
+                : inputMode === 'push-to-talk' && !isTalking ? 'Hold Space to talk'
+                : 'Listening...'
+            )}
           </span>
         </div>
       )}
 
+      {isActive && (
+        <div className="flex flex-col items-center gap-3">
+          <div className="flex items-center gap-3">
+            <div className="flex bg-zinc-950/80 rounded-full border border-zinc-800 p-1">
+              {INPUT_MODES.map(({ id, label, icon: Icon }) => (
+                <button
+                  key={id}
+                  onClick={() => handleInputModeChange(id)}
+                  className={`flex items-center gap-1.5 px-3 py-1 rounded-full text-sm transition-colors ${
+                    inputMode === id
+                      ? id === 'muted' ? 'bg-red-600 text-white' : 'bg-blue-600 text-white'
+                      : 'text-zinc-400 hover:text-white'
+                  }`}
+                >
+                  <Icon className="w-4 h-4" /> {label}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={isRecording ? stopRecording : startRecording}
+              className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full border text-sm transition-colors ${
+                isRecording
+                  ? 'bg-red-600 border-red-500 text-white'
+                  : 'bg-zinc-950/80 border-zinc-800 text-zinc-400 hover:text-white'
+              }`}
+              title={isRecording ? 'Stop recording' : 'Record this conversation'}
+            >
+              <Circle className={`w-3 h-3 ${isRecording ? 'fill-current animate-pulse' : 'text-red-500 fill-current'}`} />
+              {isRecording ? formatDuration(recordingSeconds) : 'Record'}
+            </button>
+            {inputMode === 'push-to-talk' && (
+              <button
+                onPointerDown={(e) => {
+                  e.currentTarget.setPointerCapture(e.pointerId);
+                  startTalking();
+                }}
+                onPointerUp={stopTalking}
+                onPointerCancel={stopTalking}
+                className={`px-4 py-1.5 rounded-full border text-sm font-medium select-none touch-none transition-colors ${
+                  isTalking
+                    ? 'bg-blue-600 border-blue-500 text-white'
+                    : 'bg-zinc-950/80 border-zinc-800 text-zinc-300 hover:text-white'
+                }`}
+                title="Hold to talk, or hold Space"
+              >
+                {isTalking ? 'Talking…' : 'Hold to talk'}
+              </button>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => videoSource === 'camera' ? stopVideo() : startVideo('camera')}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-full border text-sm transition-colors ${
+                videoSource === 'camera'
+                  ? 'bg-blue-600 border-blue-500 text-white'
+                  : 'bg-zinc-950/80 border-zinc-800 text-zinc-400 hover:text-white'
+              }`}
+            >
+              <Video className="w-4 h-4" /> Camera
+            </button>
+            <button
+              onClick={() => videoSource === 'screen' ? stopVideo() : startVideo('screen')}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-full border text-sm transition-colors ${
+                videoSource === 'screen'
+                  ? 'bg-blue-600 border-blue-500 text-white'
+                  : 'bg-zinc-950/80 border-zinc-800 text-zinc-400 hover:text-white'
+              }`}
+            >
+              <MonitorUp className="w-4 h-4" /> Screen
+            </button>
+            <select
+              value={framesPerSecond}
+              onChange={(e) => setFramesPerSecond(parseFloat(e.target.value))}
+              disabled={!!videoSource}
+              className="bg-zinc-950/80 border border-zinc-800 rounded-full px-3 py-1.5 text-sm text-zinc-400 outline-none disabled:text-zinc-600"
+              title={videoSource ? 'Stop sharing to change the frame rate' : 'Frames sent per second'}
+            >
+              {FRAME_RATE_OPTIONS.map(rate => (
+                <option key={rate} value={rate}>{rate} fps</option>
+              ))}
+            </select>
+          </div>
+          {videoStream && (
+            <div className="relative w-64 aspect-video rounded-xl overflow-hidden border border-zinc-800 bg-black">
+              <video ref={videoPreviewRef} autoPlay muted playsInline className="w-full h-full object-contain" />
+              <button
+                onClick={stopVideo}
+                className="absolute top-2 right-2 p-1 rounded-full bg-black/60 text-white/80 hover:text-white"
+                title="Stop sharing"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {!isActive && status !== 'connecting' && (
+        <button
+          onClick={() => setShowSettings(prev => !prev)}
+          className="flex items-center gap-2 px-4 py-2 rounded-full bg-zinc-950/80 border border-zinc-800 text-sm text-zinc-400 hover:text-white transition-colors"
+        >
+          <Settings2 className="w-4 h-4" />
+          {activePreset.name} · {activePreset.voiceName}
+          {showSettings ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </button>
+      )}
+
+      {showSettings && !isActive && status !== 'connecting' && (
+        <LiveSettingsPanel
+          presets={presets}
+          activeId={activePreset.id}
+          onSelect={handleSelectPreset}
+          onUpdate={handleUpdatePreset}
+          onCreate={handleCreatePreset}
+          onDelete={handleDeletePreset}
+        />
+      )}
+
+      {recording && !isRecording && (
+        <div className="flex items-center gap-2 px-4 py-2 rounded-full bg-zinc-950/80 border border-zinc-800 text-sm text-zinc-400">
+          <Circle className="w-3 h-3 text-red-500 fill-current" />
+          Recording · {formatDuration(recordingSeconds)}
+          <button
+            onClick={() => handleDownloadRecording('mix')}
+            className="flex items-center gap-1 px-2 py-1 rounded-lg hover:text-white transition-colors"
+            title="Both sides mixed into one WAV file"
+          >
+            <Download className="w-4 h-4" /> WAV
+          </button>
+          <button
+            onClick={() => handleDownloadRecording('tracks')}
+            className="flex items-center gap-1 px-2 py-1 rounded-lg hover:text-white transition-colors"
+            title="Stereo WAV: you on the left, Gemini on the right"
+          >
+            <Download className="w-4 h-4" /> Separate tracks
+          </button>
+          <button
+            onClick={() => setRecording(null)}
+            className="p-1 rounded-lg hover:text-red-400 transition-colors"
+            title="Discard recording"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       {errorMessage && (
         <div className="p-4 bg-red-900/20 border border-red-500/50 rounded-lg text-red-200 text-sm max-w-md text-center">
           {errorMessage}
@@ -272,16 +961,33 @@ const LiveView: React.FC = () => {
            <div className="flex items-center gap-2 mb-2 text-zinc-400 text-sm">
              <Activity className="w-4 h-4" /> Latency
            </div>
-           <div className="text-xl font-mono text-white">~300ms</div>
+           <div className="text-xl font-mono text-white">
+             {lastLatency !== undefined ? `${Math.round(lastLatency)}ms` : '--'}
+           </div>
+           <div className="text-xs font-mono text-zinc-500">
+             avg {averageLatency !== undefined ? `${Math.round(averageLatency)}ms` : '--'} · last {latencies.length}
+           </div>
         </div>
         <div className="p-4 bg-zinc-800/50 rounded-xl border border-zinc-700/50">
            <div className="flex items-center gap-2 mb-2 text-zinc-400 text-sm">
              <Volume2 className="w-4 h-4" /> Output
            </div>
-           <div className="text-xl font-mono text-white">24kHz</div>
+           <div className="text-xl font-mono text-white">
+             {sampleRates ? `${sampleRates.output / 1000}kHz` : '--'}
+           </div>
+           <div className="text-xs font-mono text-zinc-500">
+             mic {sampleRates ? `${sampleRates.input / 1000}kHz → 16kHz` : '--'}
+           </div>
         </div>
       </div>
 
+      <TranscriptPanel
+        entries={transcript}
+        canSave={!isActive && status !== 'connecting' && transcript.some(entry => entry.text.trim())}
+        onSave={handleSaveTranscript}
+        onClear={() => setTranscript([])}
+      />
+
     </div>
   );
 };
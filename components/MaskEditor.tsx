@@ -0,0 +1,298 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Brush, Eraser, Undo2, Trash2, X, Loader2, Square, Wand2 } from 'lucide-react';
+
+const MAX_UNDO_STEPS = 20;
+// Painted opaque and shown through the canvas opacity, so overlapping strokes don't darken
+const MASK_COLOR = 'rgb(236, 72, 153)';
+
+const hasPaint = (data: ImageData): boolean => {
+  for (let i = 3; i < data.data.length; i += 4) {
+    if (data.data[i] > 0) return true;
+  }
+  return false;
+};
+
+interface MaskEditorProps {
+  imageUrl: string;
+  isLoading: boolean;
+  onSubmit: (maskDataUri: string, prompt: string) => void;
+  onStop: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Canvas overlay for painting an inpainting mask over an image.
+ * The canvas uses the image's natural resolution; pointer positions are scaled
+ * from the displayed size.
+ */
+const MaskEditor: React.FC<MaskEditorProps> = ({ imageUrl, isLoading, onSubmit, onStop, onCancel }) => {
+  const [tool, setTool] = useState<'brush' | 'eraser'>('brush');
+  const [brushSize, setBrushSize] = useState(40);
+  const [prompt, setPrompt] = useState('');
+  const [hasMask, setHasMask] = useState(false);
+  const [canUndo, setCanUndo] = useState(false);
+
+  const imageRef = useRef<HTMLImageElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const undoStackRef = useRef<ImageData[]>([]);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+
+  // Match the canvas to the image's natural size once it has loaded
+  useEffect(() => {
+    const img = imageRef.current;
+    const canvas = canvasRef.current;
+    if (!img || !canvas) return;
+
+    const sizeCanvas = () => {
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      undoStackRef.current = [];
+      setCanUndo(false);
+      setHasMask(false);
+    };
+
+    if (img.complete && img.naturalWidth) {
+      sizeCanvas();
+    } else {
+      img.addEventListener('load', sizeCanvas, { once: true });
+      return () => img.removeEventListener('load', sizeCanvas);
+    }
+  }, [imageUrl]);
+
+  const getContext = () => canvasRef.current?.getContext('2d') || null;
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (canvas.width / rect.width),
+      y: (e.clientY - rect.top) * (canvas.height / rect.height),
+    };
+  };
+
+  // Brush size is picked in screen pixels, so scale it to canvas pixels
+  const getLineWidth = (canvas: HTMLCanvasElement) =>
+    brushSize * (canvas.width / canvas.getBoundingClientRect().width);
+
+  const drawSegment = (from: { x: number; y: number }, to: { x: number; y: number }) => {
+    const canvas = canvasRef.current;
+    const ctx = getContext();
+    if (!canvas || !ctx) return;
+
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.fillStyle = MASK_COLOR;
+    ctx.lineWidth = getLineWidth(canvas);
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    const ctx = getContext();
+    if (!canvas || !ctx || isLoading) return;
+
+    // Snapshot before the stroke so it can be undone as one step
+    undoStackRef.current.push(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    if (undoStackRef.current.length > MAX_UNDO_STEPS) undoStackRef.current.shift();
+    setCanUndo(true);
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toCanvasPoint(e);
+    lastPointRef.current = point;
+    drawSegment(point, point);
+    if (tool === 'brush') setHasMask(true);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lastPointRef.current) return;
+    const point = toCanvasPoint(e);
+    drawSegment(lastPointRef.current, point);
+    lastPointRef.current = point;
+  };
+
+  const handlePointerUp = () => {
+    if (!lastPointRef.current) return;
+    lastPointRef.current = null;
+
+    // Erasing may have cleared the whole mask
+    const canvas = canvasRef.current;
+    const ctx = getContext();
+    if (canvas && ctx && tool === 'eraser') {
+      setHasMask(hasPaint(ctx.getImageData(0, 0, canvas.width, canvas.height)));
+    }
+  };
+
+  const handleUndo = () => {
+    const ctx = getContext();
+    const snapshot = undoStackRef.current.pop();
+    if (!ctx || !snapshot) return;
+    ctx.putImageData(snapshot, 0, 0);
+    setCanUndo(undoStackRef.current.length > 0);
+    setHasMask(hasPaint(snapshot));
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    const ctx = getContext();
+    if (!canvas || !ctx) return;
+    undoStackRef.current.push(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    setCanUndo(true);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+  };
+
+  /**
+   * Converts the painted overlay into a black and white PNG mask (white = repaint).
+   */
+  const exportMask = (): string | null => {
+    const canvas = canvasRef.current;
+    const ctx = getContext();
+    if (!canvas || !ctx) return null;
+
+    const painted = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const maskCanvas = document.createElement('canvas');
+    maskCanvas.width = canvas.width;
+    maskCanvas.height = canvas.height;
+    const maskCtx = maskCanvas.getContext('2d');
+    if (!maskCtx) return null;
+
+    const mask = maskCtx.createImageData(canvas.width, canvas.height);
+    for (let i = 0; i < painted.data.length; i += 4) {
+      const value = painted.data[i + 3] > 0 ? 255 : 0;
+      mask.data[i] = value;
+      mask.data[i + 1] = value;
+      mask.data[i + 2] = value;
+      mask.data[i + 3] = 255;
+    }
+    maskCtx.putImageData(mask, 0, 0);
+    return maskCanvas.toDataURL('image/png');
+  };
+
+  const handleSubmit = () => {
+    if (!prompt.trim() || !hasMask || isLoading) return;
+    const mask = exportMask();
+    if (mask) onSubmit(mask, prompt);
+  };
+
+  const canSubmit = !!prompt.trim() && hasMask;
+
+  return (
+    <div className="w-full h-full flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex bg-zinc-950 rounded-xl border border-zinc-800 p-1">
+          <button
+            onClick={() => setTool('brush')}
+            className={`p-2 rounded-lg transition-colors ${tool === 'brush' ? 'bg-zinc-800 text-pink-400' : 'text-zinc-500 hover:text-white'}`}
+            title="Brush"
+          >
+            <Brush size={16} />
+          </button>
+          <button
+            onClick={() => setTool('eraser')}
+            className={`p-2 rounded-lg transition-colors ${tool === 'eraser' ? 'bg-zinc-800 text-pink-400' : 'text-zinc-500 hover:text-white'}`}
+            title="Eraser"
+          >
+            <Eraser size={16} />
+          </button>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-zinc-400">
+          Size
+          <input
+            type="range"
+            min={5}
+            max={150}
+            value={brushSize}
+            onChange={(e) => setBrushSize(parseInt(e.target.value, 10))}
+            className="w-24 accent-pink-500"
+          />
+          <span className="font-mono w-8">{brushSize}</span>
+        </label>
+        <button
+          onClick={handleUndo}
+          disabled={!canUndo}
+          className="p-2 rounded-lg text-zinc-400 hover:text-white disabled:text-zinc-700 disabled:cursor-not-allowed"
+          title="Undo"
+        >
+          <Undo2 size={16} />
+        </button>
+        <button
+          onClick={handleClear}
+          disabled={!hasMask}
+          className="p-2 rounded-lg text-zinc-400 hover:text-red-400 disabled:text-zinc-700 disabled:cursor-not-allowed"
+          title="Clear mask"
+        >
+          <Trash2 size={16} />
+        </button>
+        <div className="flex-1" />
+        <button
+          onClick={onCancel}
+          className="p-2 rounded-lg text-zinc-400 hover:text-white"
+          title="Close inpainting"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 flex items-center justify-center">
+        <div className="relative">
+          <img
+            ref={imageRef}
+            src={imageUrl}
+            alt="Inpainting source"
+            className="block max-w-full max-h-[55vh] rounded-lg select-none"
+            draggable={false}
+          />
+          <canvas
+            ref={canvasRef}
+            className="absolute inset-0 w-full h-full rounded-lg opacity-50 cursor-crosshair touch-none"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerLeave={handlePointerUp}
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+          placeholder={hasMask ? "What should go in the painted area?" : "Paint over the area to regenerate"}
+          className="flex-1 bg-zinc-950 border border-zinc-800 rounded-xl px-4 py-2 text-sm text-white placeholder-zinc-500 focus:outline-none focus:border-pink-500 transition-colors"
+        />
+        {isLoading ? (
+          <button
+            onClick={onStop}
+            className="px-4 rounded-xl font-medium transition-all bg-zinc-800 text-zinc-200 hover:bg-red-600 hover:text-white flex items-center gap-2"
+            title="Stop generating"
+          >
+            <Loader2 className="animate-spin w-4 h-4" />
+            <Square className="w-4 h-4" />
+          </button>
+        ) : (
+          <button
+            onClick={handleSubmit}
+            disabled={!canSubmit}
+            className={`px-4 rounded-xl text-sm font-medium flex items-center gap-2 transition-all ${
+              !canSubmit
+                ? 'bg-zinc-800 text-zinc-500 cursor-not-allowed'
+                : 'bg-pink-600 text-white hover:bg-pink-500 shadow-lg shadow-pink-500/20'
+            }`}
+          >
+            <Wand2 size={16} /> Inpaint
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MaskEditor;
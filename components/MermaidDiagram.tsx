@@ -0,0 +1,60 @@
+import React, { useEffect, useId, useState } from 'react';
+
+interface MermaidDiagramProps {
+  source: string;
+  fallback: React.ReactNode; // Shown until the diagram renders, and instead of it if the source is invalid
+}
+
+type MermaidApi = typeof import('mermaid')['default'];
+
+let mermaidPromise: Promise<MermaidApi> | null = null;
+
+// Mermaid is large, so it's only fetched once a reply contains a diagram
+const loadMermaid = (): Promise<MermaidApi> => {
+  if (!mermaidPromise) {
+    mermaidPromise = import('mermaid').then(({ default: mermaid }) => {
+      mermaid.initialize({ startOnLoad: false, theme: 'dark', securityLevel: 'strict' });
+      return mermaid;
+    });
+  }
+  return mermaidPromise;
+};
+
+/**
+ * Renders a Mermaid diagram. While a reply streams the source is usually
+ * incomplete, so parse failures quietly keep the fallback instead of erroring.
+ */
+const MermaidDiagram: React.FC<MermaidDiagramProps> = ({ source, fallback }) => {
+  const [svg, setSvg] = useState<string | null>(null);
+  const id = `mermaid-${useId().replace(/[^\w-]/g, '')}`;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadMermaid()
+      .then(async mermaid => {
+        if (!(await mermaid.parse(source, { suppressErrors: true }))) {
+          if (!cancelled) setSvg(null);
+          return;
+        }
+        const result = await mermaid.render(id, source);
+        if (!cancelled) setSvg(result.svg);
+      })
+      .catch(err => {
+        console.error("Failed to render diagram:", err);
+        if (!cancelled) setSvg(null);
+      });
+
+    return () => { cancelled = true; };
+  }, [source, id]);
+
+  if (!svg) return <>{fallback}</>;
+  return (
+    <div
+      className="my-3 p-3 flex justify-center rounded-lg bg-zinc-950 border border-white/10 overflow-x-auto"
+      dangerouslySetInnerHTML={{ __html: svg }}
+    />
+  );
+};
+
+export default MermaidDiagram;
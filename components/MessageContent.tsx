@@ -0,0 +1,95 @@
+import React from 'react';
+import ReactMarkdown, { Components, Options } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import type { Element, ElementContent } from 'hast';
+import CopyButton from './CopyButton';
+import MermaidDiagram from './MermaidDiagram';
+import { copyText } from '../utils/clipboard';
+
+interface MessageContentProps {
+  text: string;
+  messageId?: string; // Exposed as data-message-id so the rendered HTML can be found for copying
+}
+
+const REMARK_PLUGINS: Options['remarkPlugins'] = [remarkGfm, remarkMath];
+// Mermaid sources are left as plain text for MermaidDiagram to pick up
+const REHYPE_PLUGINS: Options['rehypePlugins'] = [rehypeKatex, [rehypeHighlight, { plainText: ['mermaid'] }]];
+
+const hastText = (node: ElementContent): string =>
+  node.type === 'text' ? node.value : 'children' in node ? node.children.map(hastText).join('') : '';
+
+const codeLanguage = (code: Element): string | undefined => {
+  const classNames = code.properties.className;
+  const languageClass = Array.isArray(classNames)
+    ? classNames.map(String).find(name => name.startsWith('language-'))
+    : undefined;
+  return languageClass?.slice('language-'.length);
+};
+
+interface CodeBlockProps {
+  language?: string;
+  code: string;
+  children: React.ReactNode;
+}
+
+const CodeBlock: React.FC<CodeBlockProps> = ({ language, code, children }) => (
+  <div className="my-3 rounded-lg border border-white/10 bg-zinc-950 overflow-hidden">
+    <div data-copy-exclude className="flex items-center justify-between px-3 py-1 border-b border-white/10">
+      <span className="font-mono text-xs text-zinc-500">{language || 'text'}</span>
+      <CopyButton
+        onCopy={() => copyText(code)}
+        title="Copy code"
+        className="p-1 rounded text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors"
+      />
+    </div>
+    <pre className="p-3 overflow-x-auto text-xs leading-relaxed">{children}</pre>
+  </div>
+);
+
+const COMPONENTS: Components = {
+  pre: ({ node, children }) => {
+    const code = node?.children.find((child): child is Element => child.type === 'element' && child.tagName === 'code');
+    if (!code) return <pre>{children}</pre>;
+
+    const language = codeLanguage(code);
+    const source = hastText(code).replace(/\n$/, '');
+    const block = <CodeBlock language={language} code={source}>{children}</CodeBlock>;
+    return language === 'mermaid' ? <MermaidDiagram source={source} fallback={block} /> : block;
+  },
+  table: ({ children }) => (
+    <div className="my-3 overflow-x-auto">
+      <table className="min-w-full border-collapse text-sm">{children}</table>
+    </div>
+  ),
+  th: ({ children, style }) => (
+    <th style={style} className="px-3 py-1.5 border border-zinc-700 bg-zinc-900 text-left font-semibold">{children}</th>
+  ),
+  td: ({ children, style }) => (
+    <td style={style} className="px-3 py-1.5 border border-zinc-700">{children}</td>
+  ),
+  a: ({ children, href }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="text-indigo-300 underline hover:text-indigo-200">{children}</a>
+  ),
+};
+
+/**
+ * Markdown renderer for chat messages: GitHub-flavored Markdown, KaTeX math,
+ * highlighted code blocks with copy buttons and inline Mermaid diagrams.
+ * Memoized so streaming a reply doesn't re-render the rest of the thread.
+ */
+const MessageContent: React.FC<MessageContentProps> = React.memo(({ text, messageId }) => (
+  <div data-message-id={messageId} className="prose prose-invert prose-sm max-w-none">
+    <ReactMarkdown
+      remarkPlugins={REMARK_PLUGINS}
+      rehypePlugins={REHYPE_PLUGINS}
+      components={COMPONENTS}
+    >
+      {text}
+    </ReactMarkdown>
+  </div>
+));
+
+export default MessageContent;
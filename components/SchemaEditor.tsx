@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { JsonSchema, SchemaPreset } from '../types';
+import {
+  loadSchemaPresets,
+  saveSchemaPresets,
+  createSchemaPreset,
+  isBuiltinSchemaPreset,
+  BUILTIN_SCHEMA_PRESETS
+} from '../services/schemaPresets';
+import { parseSchema } from '../utils/jsonSchema';
+
+interface SchemaEditorProps {
+  schema: JsonSchema | undefined;
+  onChange: (schema: JsonSchema | undefined) => void;
+}
+
+const formatSchema = (schema: JsonSchema) => JSON.stringify(schema, null, 2);
+
+/**
+ * Structured output controls: an on/off switch, saved schema presets and a JSON
+ * editor. Only text that parses as a schema is passed up; until then the last
+ * valid schema stays in effect and the parse error is shown under the editor.
+ */
+const SchemaEditor: React.FC<SchemaEditorProps> = ({ schema, onChange }) => {
+  const [presets, setPresets] = useState<SchemaPreset[]>(loadSchemaPresets);
+  const [text, setText] = useState(() => schema ? formatSchema(schema) : '');
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow schema changes made elsewhere (switching conversation, resetting settings)
+  useEffect(() => {
+    setError(null);
+    setText(prev => {
+      try {
+        if (schema && JSON.stringify(parseSchema(prev)) === JSON.stringify(schema)) return prev;
+      } catch {
+        // Half-typed text is replaced by the new schema
+      }
+      return schema ? formatSchema(schema) : '';
+    });
+  }, [schema]);
+
+  const selectedPreset = schema && presets.find(preset => JSON.stringify(preset.schema) === JSON.stringify(schema));
+
+  const updatePresets = (next: SchemaPreset[]) => {
+    setPresets(next);
+    saveSchemaPresets(next);
+  };
+
+  const handleToggle = (enabled: boolean) => {
+    onChange(enabled ? BUILTIN_SCHEMA_PRESETS[0].schema : undefined);
+  };
+
+  const handleTextChange = (value: string) => {
+    setText(value);
+    try {
+      onChange(parseSchema(value));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleSelectPreset = (id: string) => {
+    const preset = presets.find(p => p.id === id);
+    if (preset) onChange(preset.schema);
+  };
+
+  const handleSavePreset = () => {
+    if (!schema) return;
+    const name = window.prompt('Name for the schema preset');
+    if (!name?.trim()) return;
+    updatePresets([...presets, createSchemaPreset(name.trim(), schema)]);
+  };
+
+  const handleDeletePreset = () => {
+    if (!selectedPreset || isBuiltinSchemaPreset(selectedPreset.id)) return;
+    if (window.confirm(`Delete the schema preset "${selectedPreset.name}"?`)) {
+      updatePresets(presets.filter(preset => preset.id !== selectedPreset.id));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-xs font-medium text-zinc-400 uppercase tracking-wider">Structured output</label>
+        <label className="flex items-center gap-2 text-xs text-zinc-500">
+          <input
+            type="checkbox"
+            checked={!!schema}
+            onChange={(e) => handleToggle(e.target.checked)}
+            className="accent-indigo-500"
+          />
+          JSON
+        </label>
+      </div>
+
+      {schema ? (
+        <>
+          <div className="flex gap-2">
+            <select
+              value={selectedPreset?.id || ''}
+              onChange={(e) => handleSelectPreset(e.target.value)}
+              className="flex-1 min-w-0 bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-white outline-none focus:border-indigo-500"
+            >
+              {!selectedPreset && <option value="">Custom schema</option>}
+              {presets.map(preset => (
+                <option key={preset.id} value={preset.id}>{preset.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleSavePreset}
+              disabled={!!selectedPreset}
+              className="px-3 rounded-lg bg-zinc-800 text-zinc-400 hover:text-white disabled:text-zinc-700 disabled:cursor-not-allowed transition-colors"
+              title="Save as a preset"
+            >
+              <Plus size={16} />
+            </button>
+            <button
+              onClick={handleDeletePreset}
+              disabled={!selectedPreset || isBuiltinSchemaPreset(selectedPreset.id)}
+              className="px-3 rounded-lg bg-zinc-800 text-zinc-400 hover:text-red-400 disabled:text-zinc-700 disabled:cursor-not-allowed transition-colors"
+              title="Delete preset"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+          <textarea
+            value={text}
+            onChange={(e) => handleTextChange(e.target.value)}
+            spellCheck={false}
+            rows={12}
+            className={`w-full bg-zinc-900 border rounded-lg px-3 py-2 font-mono text-xs text-white outline-none resize-y ${
+              error ? 'border-red-500/60' : 'border-zinc-800 focus:border-indigo-500'
+            }`}
+          />
+          {error ? (
+            <p className="text-xs text-red-400">{error}</p>
+          ) : (
+            <p className="text-xs text-zinc-500">Replies are JSON matching this schema. Tools are unavailable in this mode.</p>
+          )}
+        </>
+      ) : (
+        <p className="text-xs text-zinc-500">Ask for JSON that follows a schema, e.g. to extract data from screenshots.</p>
+      )}
+    </div>
+  );
+};
+
+export default SchemaEditor;
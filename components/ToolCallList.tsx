@@ -0,0 +1,57 @@
+import React from 'react';
+import { Wrench, Loader2, AlertTriangle } from 'lucide-react';
+import { ToolCallRecord } from '../types';
+
+interface ToolCallListProps {
+  calls: ToolCallRecord[];
+}
+
+const formatJson = (value: unknown): string => JSON.stringify(value, null, 2);
+
+/**
+ * Collapsible summary of the tools the model called, with their arguments and results.
+ */
+const ToolCallList: React.FC<ToolCallListProps> = ({ calls }) => {
+  if (calls.length === 0) return null;
+
+  return (
+    <div className="mb-3 space-y-2">
+      {calls.map(call => {
+        const isPending = call.result === undefined && call.error === undefined;
+        return (
+          <details key={call.id} className="group rounded-lg bg-black/20 border border-white/10 text-xs">
+            <summary className="flex items-center gap-2 px-3 py-2 cursor-pointer select-none text-zinc-300">
+              {isPending ? (
+                <Loader2 size={14} className="animate-spin text-indigo-400" />
+              ) : call.error !== undefined ? (
+                <AlertTriangle size={14} className="text-red-400" />
+              ) : (
+                <Wrench size={14} className="text-emerald-400" />
+              )}
+              <span className="font-mono">{call.name}</span>
+              <span className="text-zinc-500">{isPending ? 'running…' : call.error !== undefined ? 'failed' : 'done'}</span>
+            </summary>
+            <div className="px-3 pb-3 space-y-2">
+              <div>
+                <p className="text-[10px] uppercase tracking-wider text-zinc-500 mb-1">Arguments</p>
+                <pre className="p-2 rounded bg-zinc-950 text-zinc-300 overflow-x-auto">{formatJson(call.args)}</pre>
+              </div>
+              {!isPending && (
+                <div>
+                  <p className="text-[10px] uppercase tracking-wider text-zinc-500 mb-1">
+                    {call.error !== undefined ? 'Error' : 'Result'}
+                  </p>
+                  <pre className={`p-2 rounded bg-zinc-950 overflow-x-auto ${call.error !== undefined ? 'text-red-300' : 'text-zinc-300'}`}>
+                    {call.error !== undefined ? call.error : formatJson(call.result)}
+                  </pre>
+                </div>
+              )}
+            </div>
+          </details>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ToolCallList;
@@ -0,0 +1,62 @@
+import React, { useEffect, useRef } from 'react';
+import { MessageSquareText, Trash2, User, Bot } from 'lucide-react';
+import { TranscriptEntry } from '../types';
+
+interface TranscriptPanelProps {
+  entries: TranscriptEntry[];
+  canSave: boolean;
+  onSave: () => void;
+  onClear: () => void;
+}
+
+const TranscriptPanel: React.FC<TranscriptPanelProps> = ({ entries, canSave, onSave, onClear }) => {
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [entries]);
+
+  return (
+    <div className="w-full max-w-2xl flex flex-col min-h-0 bg-zinc-950/60 rounded-xl border border-zinc-800">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-zinc-800">
+        <h3 className="text-sm font-semibold text-zinc-300">Transcript</h3>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onSave}
+            disabled={!canSave}
+            className="flex items-center gap-1.5 px-2 py-1 rounded-lg text-xs text-zinc-400 hover:text-indigo-400 disabled:text-zinc-700 disabled:cursor-not-allowed transition-colors"
+            title={canSave ? 'Save as a chat conversation' : 'Available once the session has ended'}
+          >
+            <MessageSquareText size={14} /> Continue in chat
+          </button>
+          <button
+            onClick={onClear}
+            disabled={entries.length === 0}
+            className="p-1 rounded-lg text-zinc-500 hover:text-red-400 disabled:text-zinc-700 disabled:cursor-not-allowed transition-colors"
+            title="Clear transcript"
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      </div>
+      <div className="flex-1 overflow-y-auto p-4 space-y-3 max-h-64">
+        {entries.map(entry => (
+          <div key={entry.id} className="flex gap-2 text-sm">
+            <div className={`w-6 h-6 rounded-full flex items-center justify-center shrink-0 ${
+              entry.role === 'user' ? 'bg-indigo-600' : 'bg-emerald-600'
+            }`}>
+              {entry.role === 'user' ? <User size={12} /> : <Bot size={12} />}
+            </div>
+            <p className={`pt-0.5 ${entry.isFinal ? 'text-zinc-200' : 'text-zinc-400'}`}>{entry.text}</p>
+          </div>
+        ))}
+        {entries.length === 0 && (
+          <p className="text-center text-zinc-600 text-sm py-6">What you and Gemini say will appear here</p>
+        )}
+        <div ref={endRef} />
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptPanel;
@@ -0,0 +1,160 @@
+// Local backend that keeps the Gemini API key off the client.
+//
+// The browser SDK is pointed at this server (API_PROXY_URL) and sends its REST
+// calls here instead of to Google. Only the calls the app needs are forwarded,
+// with the real key added on the way out. Live sessions can't be proxied as
+// plain HTTP, so the server mints short-lived ephemeral tokens for them instead.
+//
+// Run with `npm run server`; reads GEMINI_API_KEY from .env.local.
+
+import http from 'node:http';
+import { Readable, pipeline } from 'node:stream';
+import { GoogleGenAI } from '@google/genai';
+
+const PORT = Number(process.env.PROXY_PORT) || 8787;
+const API_KEY = process.env.GEMINI_API_KEY;
+const UPSTREAM = 'https://generativelanguage.googleapis.com';
+// Browser origins allowed to call the proxy
+const ALLOWED_ORIGINS = (process.env.PROXY_ALLOWED_ORIGINS || 'http://localhost:3000').split(',').map(o => o.trim());
+// Live tokens: one session each, which must start within a minute and ends after 30
+const LIVE_TOKEN_TTL_MS = 30 * 60 * 1000;
+const LIVE_TOKEN_START_WINDOW_MS = 60 * 1000;
+
+// Upstream calls that are forwarded; everything else is refused
+const ALLOWED_PATHS = [
+  /^\/v1beta\/models\/[\w.-]+:(generateContent|streamGenerateContent)$/,
+  /^\/upload\/v1beta\/files$/,
+  /^\/v1beta\/files\/[\w-]+$/,
+];
+
+// Hop-by-hop headers and ones fetch handles itself are not copied across
+const SKIPPED_REQUEST_HEADERS = new Set(['host', 'connection', 'content-length', 'origin', 'referer', 'x-goog-api-key']);
+const SKIPPED_RESPONSE_HEADERS = new Set(['connection', 'content-length', 'content-encoding', 'transfer-encoding']);
+
+if (!API_KEY) {
+  console.error("GEMINI_API_KEY is not set. Add it to .env.local.");
+  process.exit(1);
+}
+
+const ai = new GoogleGenAI({ apiKey: API_KEY });
+
+const isAllowedOrigin = (origin) => !!origin && ALLOWED_ORIGINS.includes(origin);
+
+const applyCors = (req, res) => {
+  const origin = req.headers.origin;
+  if (isAllowedOrigin(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', req.headers['access-control-request-headers'] || 'content-type');
+    // The SDK's resumable upload reads these from the responses
+    res.setHeader('Access-Control-Expose-Headers', 'x-goog-upload-url, x-goog-upload-status');
+  }
+};
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const createLiveToken = async () => {
+  const now = Date.now();
+  const token = await ai.authTokens.create({
+    config: {
+      uses: 1,
+      expireTime: new Date(now + LIVE_TOKEN_TTL_MS).toISOString(),
+      newSessionExpireTime: new Date(now + LIVE_TOKEN_START_WINDOW_MS).toISOString(),
+      httpOptions: { apiVersion: 'v1alpha' },
+    },
+  });
+  return { token: token.name };
+};
+
+/**
+ * Forwards an allowed request to the Gemini API with the server's key, streaming
+ * both bodies so streamGenerateContent and uploads pass straight through.
+ */
+const forward = async (req, res, url) => {
+  url.searchParams.delete('key');
+  const upstreamUrl = `${UPSTREAM}${url.pathname}${url.search}`;
+
+  const headers = { 'x-goog-api-key': API_KEY };
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (!SKIPPED_REQUEST_HEADERS.has(name) && typeof value === 'string') headers[name] = value;
+  }
+
+  // Stop the upstream request if the browser goes away (e.g. the user pressed Stop)
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+
+  const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+  const upstream = await fetch(upstreamUrl, {
+    method: req.method,
+    headers,
+    body: hasBody ? Readable.toWeb(req) : undefined,
+    duplex: hasBody ? 'half' : undefined,
+    signal: controller.signal,
+  });
+
+  for (const [name, value] of upstream.headers) {
+    if (SKIPPED_RESPONSE_HEADERS.has(name)) continue;
+    // The resumable upload continues at this URL, so keep it pointing at the proxy
+    if (name === 'x-goog-upload-url') {
+      const publicUrl = process.env.PROXY_PUBLIC_URL || `http://${req.headers.host}`;
+      res.setHeader(name, value.replace(UPSTREAM, publicUrl));
+    } else {
+      res.setHeader(name, value);
+    }
+  }
+  res.writeHead(upstream.status);
+
+  if (upstream.body) {
+    // Aborting the upstream fetch when the browser leaves errors this stream; tear down quietly
+    pipeline(Readable.fromWeb(upstream.body), res, (err) => {
+      if (err) res.destroy();
+    });
+  } else {
+    res.end();
+  }
+};
+
+const server = http.createServer(async (req, res) => {
+  // Browsers always send Origin on these cross-origin calls. Refusing everything
+  // else keeps other pages from using the key; it does not stop non-browser
+  // clients, which can set any Origin, so the port must not be publicly reachable.
+  if (!isAllowedOrigin(req.headers.origin)) {
+    sendJson(res, 403, { error: { message: 'Origin not allowed.' } });
+    return;
+  }
+
+  applyCors(req, res);
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const url = new URL(req.url || '/', `http://${req.headers.host}`);
+
+  try {
+    if (url.pathname === '/live-token' && req.method === 'POST') {
+      sendJson(res, 200, await createLiveToken());
+    } else if (ALLOWED_PATHS.some(pattern => pattern.test(url.pathname))) {
+      await forward(req, res, url);
+    } else {
+      sendJson(res, 404, { error: { message: `Not proxied: ${url.pathname}` } });
+    }
+  } catch (error) {
+    if (error?.name === 'AbortError') return;
+    console.error(`Proxy error for ${req.method} ${url.pathname}:`, error);
+    if (res.headersSent) {
+      res.destroy();
+    } else {
+      sendJson(res, 502, { error: { message: 'Upstream request failed.' } });
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Gemini proxy listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,87 @@
+import type { ToolDefinition } from './tools';
+import { evaluateExpression } from '../utils/mathExpression';
+import { listConversations, matchesSearch } from './chatStore';
+
+const MAX_SEARCH_RESULTS = 5;
+const SNIPPET_RADIUS = 80;
+
+const calculator: ToolDefinition<{ expression: string }> = {
+  name: 'calculator',
+  description: 'Evaluates an arithmetic expression exactly. Supports + - * / % ^, parentheses, ' +
+    'sqrt, abs, round, floor, ceil, sin, cos, tan, asin, acos, atan, ln, log (base 10), exp, pi and e.',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: { type: 'string', description: 'The expression to evaluate, e.g. "(3 + 4) * sqrt(2)".' },
+    },
+    required: ['expression'],
+  },
+  handler: async ({ expression }) => ({ expression, value: evaluateExpression(expression) }),
+};
+
+const currentTime: ToolDefinition<{ timeZone?: string }> = {
+  name: 'get_current_time',
+  description: "Returns the current date and time, in the user's time zone unless another IANA time zone is given.",
+  parameters: {
+    type: 'object',
+    properties: {
+      timeZone: { type: 'string', description: 'IANA time zone such as "Europe/Paris". Optional.' },
+    },
+  },
+  handler: async ({ timeZone }) => {
+    const now = new Date();
+    const zone = timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+    return {
+      iso: now.toISOString(),
+      timeZone: zone,
+      local: now.toLocaleString('en-US', { timeZone: zone, dateStyle: 'full', timeStyle: 'long' }),
+    };
+  },
+};
+
+const snippetAround = (text: string, needle: string): string => {
+  const index = text.toLowerCase().indexOf(needle);
+  if (index === -1) return text.slice(0, SNIPPET_RADIUS * 2);
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + needle.length + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+};
+
+const searchChatHistory: ToolDefinition<{ query: string }> = {
+  name: 'search_chat_history',
+  description: "Searches the user's saved chat conversations for a word or phrase and returns matching excerpts.",
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Word or phrase to look for.' },
+    },
+    required: ['query'],
+  },
+  handler: async ({ query }) => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) throw new Error("Query must not be empty.");
+
+    const conversations = (await listConversations()).filter(conv => matchesSearch(conv, needle));
+    return {
+      totalMatches: conversations.length,
+      results: conversations.slice(0, MAX_SEARCH_RESULTS).map(conv => ({
+        title: conv.title,
+        updatedAt: new Date(conv.updatedAt).toISOString(),
+        excerpts: conv.messages
+          .filter(msg => msg.text.toLowerCase().includes(needle))
+          .slice(0, 3)
+          .map(msg => ({ role: msg.role, text: snippetAround(msg.text, needle) })),
+      })),
+    };
+  },
+};
+
+/**
+ * Registers the local tools that ship with the app. Takes the registry's
+ * `registerTool` so this module doesn't import it back.
+ */
+export const registerBuiltinTools = (register: <TArgs>(tool: ToolDefinition<TArgs>) => void) => {
+  register(calculator);
+  register(currentTime);
+  register(searchChatHistory);
+};
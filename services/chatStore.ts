@@ -0,0 +1,71 @@
+import { ChatMessage, Conversation } from '../types';
+import { CONVERSATIONS_STORE, getAllRecords, putRecord, deleteRecord } from './db';
+
+const ACTIVE_CONVERSATION_KEY = 'gemini-omni:active-conversation';
+const TITLE_MAX_LENGTH = 40;
+
+export const DEFAULT_CONVERSATION_TITLE = 'New chat';
+
+/**
+ * Pinned conversations first, then most recently updated.
+ */
+export const sortConversations = (conversations: Conversation[]): Conversation[] =>
+  [...conversations].sort((a, b) => {
+    if (!!a.pinned !== !!b.pinned) return a.pinned ? -1 : 1;
+    return b.updatedAt - a.updatedAt;
+  });
+
+export const listConversations = async (): Promise<Conversation[]> =>
+  sortConversations(await getAllRecords<Conversation>(CONVERSATIONS_STORE));
+
+export const saveConversation = (conversation: Conversation): Promise<void> =>
+  putRecord(CONVERSATIONS_STORE, conversation);
+
+export const deleteConversation = (id: string): Promise<void> =>
+  deleteRecord(CONVERSATIONS_STORE, id);
+
+export const createConversation = (messages: ChatMessage[] = []): Conversation => {
+  const now = Date.now();
+  return {
+    id: `conv-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    title: DEFAULT_CONVERSATION_TITLE,
+    messages,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+/**
+ * Derives a title from the first user message, for conversations still on the default title.
+ */
+export const deriveTitle = (messages: ChatMessage[]): string => {
+  const firstUserMsg = messages.find(msg => msg.role === 'user' && msg.text.trim());
+  if (!firstUserMsg) return DEFAULT_CONVERSATION_TITLE;
+
+  const text = firstUserMsg.text.trim().replace(/\s+/g, ' ');
+  return text.length > TITLE_MAX_LENGTH ? `${text.slice(0, TITLE_MAX_LENGTH - 1)}…` : text;
+};
+
+/**
+ * Case-insensitive match against the title and the text of every message.
+ */
+export const matchesSearch = (conversation: Conversation, query: string): boolean => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return (
+    conversation.title.toLowerCase().includes(needle) ||
+    conversation.messages.some(msg => msg.text.toLowerCase().includes(needle))
+  );
+};
+
+// The active conversation id lives in localStorage so it survives reloads
+export const getActiveConversationId = (): string | null =>
+  localStorage.getItem(ACTIVE_CONVERSATION_KEY);
+
+export const setActiveConversationId = (id: string | null) => {
+  if (id) {
+    localStorage.setItem(ACTIVE_CONVERSATION_KEY, id);
+  } else {
+    localStorage.removeItem(ACTIVE_CONVERSATION_KEY);
+  }
+};
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { ChatMessage, Conversation } from '../types';
+import { exportConversationJson, exportConversationMarkdown, parseConversationFile } from './conversationExport';
+
+const messages: ChatMessage[] = [
+  { id: 'm1', parentId: null, role: 'user', text: 'What is 2 + 2?', timestamp: 1000 },
+  {
+    id: 'm2', parentId: 'm1', role: 'model', text: '4', timestamp: 2000,
+    toolCalls: [{ id: 'c1', name: 'calculator', args: { expression: '2 + 2' }, result: { value: 4 } }],
+  },
+  { id: 'm3', parentId: 'm1', role: 'model', text: 'Four', timestamp: 3000, isTruncated: true },
+];
+
+const conversation: Conversation = {
+  id: 'conv-1',
+  title: 'Sums',
+  messages,
+  createdAt: 500,
+  updatedAt: 3000,
+  pinned: true,
+  activeLeafId: 'm2',
+  settings: { model: 'gemini-2.5-flash', temperature: 0.5, responseSchema: { type: 'object', required: ['a'] } },
+};
+
+// An exported file with the conversation edited as raw JSON, into shapes the types don't allow
+const fileWith = (edit: (conversation: Record<string, any>) => void, overrides: Record<string, unknown> = {}): string => {
+  const file = JSON.parse(exportConversationJson(conversation));
+  edit(file.conversation);
+  return JSON.stringify({ ...file, ...overrides });
+};
+
+describe('parseConversationFile', () => {
+  it('round-trips an exported conversation under a new id', () => {
+    const imported = parseConversationFile(exportConversationJson(conversation));
+    const { id, updatedAt, ...rest } = imported;
+    const { id: originalId, updatedAt: originalUpdatedAt, ...original } = conversation;
+
+    expect(id).not.toBe(originalId);
+    expect(updatedAt).toBeGreaterThanOrEqual(originalUpdatedAt);
+    expect(JSON.parse(JSON.stringify(rest))).toEqual(original);
+  });
+
+  it('rejects malformed JSON', () => {
+    expect(() => parseConversationFile('{"format":')).toThrow('Invalid conversation file: it is not valid JSON.');
+  });
+
+  it('rejects files from elsewhere or from a newer version', () => {
+    expect(() => parseConversationFile('{"messages": []}')).toThrow("it wasn't exported from this app's chat");
+    expect(() => parseConversationFile(fileWith(() => {}, { version: 99 }))).toThrow('newer version');
+  });
+
+  it('names the field that has the wrong shape', () => {
+    expect(() => parseConversationFile(fileWith(conv => { conv.messages[1].role = 'assistant'; })))
+      .toThrow('conversation.messages[1].role must be "user" or "model"');
+    expect(() => parseConversationFile(fileWith(conv => { conv.messages[0].timestamp = 'yesterday'; })))
+      .toThrow('conversation.messages[0].timestamp must be a number');
+    expect(() => parseConversationFile(fileWith(conv => { conv.messages = []; })))
+      .toThrow('the conversation has no messages');
+    expect(() => parseConversationFile(fileWith(conv => { conv.messages[2].parentId = 'gone'; })))
+      .toThrow("conversation.messages[2] replies to a message that isn't in the file");
+    expect(() => parseConversationFile(fileWith(conv => { conv.settings.responseSchema = { type: 'date' }; })))
+      .toThrow('conversation.settings.responseSchema is not a usable schema');
+  });
+
+  it('drops Files API references and keeps inline data', () => {
+    const imported = parseConversationFile(fileWith(conv => {
+      conv.messages[0].attachments = [
+        { id: 'a1', name: 'talk.mp4', mimeType: 'video/mp4', size: 50_000_000, fileUri: 'https://files/abc', fileExpiresAt: 1 },
+        { id: 'a2', name: 'dot.png', mimeType: 'image/png', size: 3, data: 'data:image/png;base64,AAAA' },
+      ];
+    }));
+
+    expect(imported.messages[0].attachments).toEqual([
+      { id: 'a1', name: 'talk.mp4', mimeType: 'video/mp4', size: 50_000_000, data: undefined },
+      { id: 'a2', name: 'dot.png', mimeType: 'image/png', size: 3, data: 'data:image/png;base64,AAAA' },
+    ]);
+  });
+
+  it('leaves out fields it does not know', () => {
+    const imported = parseConversationFile(fileWith(conv => {
+      conv.ownerId = 'someone';
+      conv.messages[0].html = '<script></script>';
+      conv.settings.apiKey = 'secret';
+    }));
+
+    expect(imported).not.toHaveProperty('ownerId');
+    expect(imported.messages[0]).not.toHaveProperty('html');
+    expect(imported.settings).not.toHaveProperty('apiKey');
+  });
+});
+
+describe('exportConversationMarkdown', () => {
+  it('writes the branch on screen only', () => {
+    const markdown = exportConversationMarkdown(conversation);
+    expect(markdown).toContain('# Sums');
+    expect(markdown).toContain('`calculator` called');
+    expect(markdown).not.toContain('Four');
+  });
+});
@@ -0,0 +1,302 @@
+// Conversation export (Markdown, JSON, standalone HTML) and JSON import.
+//
+// Markdown and HTML are for reading, so they contain the branch on screen. JSON
+// is for sharing a conversation to continue elsewhere: it keeps every branch,
+// the settings and the attachments' inline data, and is what import accepts.
+// Files uploaded through the Files API can't travel with it (see readAttachment).
+
+import React from 'react';
+import { ChatAttachment, ChatMessage, ChatSettings, Conversation, JsonSchema, StructuredResult, ToolCallRecord } from '../types';
+import { getThread } from '../utils/messageTree';
+import { formatFileSize } from '../utils/fileUtils';
+import { parseSchema } from '../utils/jsonSchema';
+import { downloadBlob } from '../utils/download';
+import { createConversation } from './chatStore';
+
+export type ConversationExportFormat = 'markdown' | 'json' | 'html';
+
+const EXPORT_FORMAT_ID = 'gemini-omni-conversation';
+const EXPORT_VERSION = 1;
+
+const EXPORT_FILE_TYPES: Record<ConversationExportFormat, { extension: string; mimeType: string }> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  json: { extension: 'json', mimeType: 'application/json' },
+  html: { extension: 'html', mimeType: 'text/html' },
+};
+
+interface ConversationExportFile {
+  format: typeof EXPORT_FORMAT_ID;
+  version: number;
+  exportedAt: string;
+  conversation: Conversation;
+}
+
+const roleLabel = (message: ChatMessage) => message.role === 'user' ? 'You' : 'Gemini';
+
+const describeAttachment = (attachment: ChatAttachment) =>
+  `${attachment.name} (${attachment.mimeType}, ${formatFileSize(attachment.size)})`;
+
+export const exportConversationMarkdown = (conversation: Conversation): string => {
+  const sections = getThread(conversation.messages, conversation.activeLeafId).map(message => {
+    const lines = [`### ${roleLabel(message)}`, `_${new Date(message.timestamp).toLocaleString()}_`, ''];
+    for (const attachment of message.attachments || []) {
+      lines.push(`> 📎 ${describeAttachment(attachment)}`);
+    }
+    for (const call of message.toolCalls || []) {
+      lines.push(`> 🔧 \`${call.name}\` ${call.error !== undefined ? `failed: ${call.error}` : 'called'}`);
+    }
+    if (lines.length > 3) lines.push('');
+
+    if (message.structured?.value !== undefined) {
+      lines.push('```json', JSON.stringify(message.structured.value, null, 2), '```');
+    } else {
+      lines.push(message.text);
+    }
+    if (message.isTruncated) lines.push('', '_Response stopped_');
+    return lines.join('\n');
+  });
+
+  return `# ${conversation.title}\n\n${sections.join('\n\n---\n\n')}\n`;
+};
+
+export const exportConversationJson = (conversation: Conversation): string => {
+  const file: ConversationExportFile = {
+    format: EXPORT_FORMAT_ID,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversation,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * A single HTML file with inline styles and images that renders without a network
+ * connection. The Markdown is rendered here, so the file has no scripts.
+ */
+export const exportConversationHtml = async (conversation: Conversation): Promise<string> => {
+  // Loaded on demand; only export needs the server renderer
+  const [{ renderToStaticMarkup }, { default: ConversationDocument }] = await Promise.all([
+    import('react-dom/server'),
+    import('../components/ConversationDocument'),
+  ]);
+  const messages = getThread(conversation.messages, conversation.activeLeafId);
+  return `<!DOCTYPE html>\n${renderToStaticMarkup(React.createElement(ConversationDocument, { conversation, messages }))}`;
+};
+
+/**
+ * Renders the conversation in the given format and saves it through the browser.
+ */
+export const downloadConversation = async (conversation: Conversation, format: ConversationExportFormat) => {
+  const content = format === 'markdown' ? exportConversationMarkdown(conversation)
+    : format === 'json' ? exportConversationJson(conversation)
+    : await exportConversationHtml(conversation);
+
+  const { extension, mimeType } = EXPORT_FILE_TYPES[format];
+  const fileName = conversation.title.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-') || 'conversation';
+  downloadBlob(new Blob([content], { type: `${mimeType};charset=utf-8` }), `${fileName}.${extension}`);
+};
+
+// --- Import ---
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Walks an untrusted value, throwing an Error that names the offending path
+ * (e.g. `messages[3].role`) the first time something has the wrong shape.
+ */
+const createChecker = () => {
+  const fail = (path: string, expected: string): never => {
+    throw new Error(`Invalid conversation file: ${path} must be ${expected}.`);
+  };
+  return {
+    fail,
+    string: (value: unknown, path: string, optional = false) => {
+      if (optional && value === undefined) return;
+      if (typeof value !== 'string') fail(path, 'a string');
+    },
+    number: (value: unknown, path: string, optional = false) => {
+      if (optional && value === undefined) return;
+      if (typeof value !== 'number' || !Number.isFinite(value)) fail(path, 'a number');
+    },
+    boolean: (value: unknown, path: string) => {
+      if (value !== undefined && typeof value !== 'boolean') fail(path, 'true or false');
+    },
+    object: (value: unknown, path: string, optional = false): value is Record<string, unknown> => {
+      if (optional && value === undefined) return false;
+      if (!isObject(value)) fail(path, 'an object');
+      return true;
+    },
+    array: (value: unknown, path: string, optional = false): value is unknown[] => {
+      if (optional && value === undefined) return false;
+      if (!Array.isArray(value)) fail(path, 'a list');
+      return true;
+    },
+  };
+};
+
+type Checker = ReturnType<typeof createChecker>;
+
+// Files API uploads live on Google's servers for two days and belong to the
+// exporting key, so only their description is imported. Without data or a URI the
+// attachment shows as unavailable and is left out of what's sent to the model.
+const readAttachment = (check: Checker, attachment: unknown, path: string): ChatAttachment => {
+  if (!check.object(attachment, path)) throw new Error("Invalid conversation file.");
+  check.string(attachment.id, `${path}.id`);
+  check.string(attachment.name, `${path}.name`);
+  check.string(attachment.mimeType, `${path}.mimeType`);
+  check.number(attachment.size, `${path}.size`);
+  check.string(attachment.fileUri, `${path}.fileUri`, true);
+  check.string(attachment.data, `${path}.data`, true);
+  if (typeof attachment.data === 'string' && !attachment.data.startsWith('data:')) {
+    check.fail(`${path}.data`, 'a data URI');
+  }
+  return {
+    id: attachment.id as string,
+    name: attachment.name as string,
+    mimeType: attachment.mimeType as string,
+    size: attachment.size as number,
+    data: attachment.data as string | undefined,
+  };
+};
+
+const readToolCall = (check: Checker, call: unknown, path: string): ToolCallRecord => {
+  if (!check.object(call, path)) throw new Error("Invalid conversation file.");
+  check.string(call.id, `${path}.id`);
+  check.string(call.name, `${path}.name`);
+  check.object(call.args, `${path}.args`);
+  check.string(call.error, `${path}.error`, true);
+  return {
+    id: call.id as string,
+    name: call.name as string,
+    args: call.args as Record<string, unknown>,
+    result: call.result,
+    error: call.error as string | undefined,
+  };
+};
+
+const readMessage = (check: Checker, message: unknown, path: string): ChatMessage => {
+  if (!check.object(message, path)) throw new Error("Invalid conversation file.");
+  check.string(message.id, `${path}.id`);
+  if (message.role !== 'user' && message.role !== 'model') check.fail(`${path}.role`, '"user" or "model"');
+  check.string(message.text, `${path}.text`);
+  check.number(message.timestamp, `${path}.timestamp`);
+  if (message.parentId !== null) check.string(message.parentId, `${path}.parentId`, true);
+  check.string(message.image, `${path}.image`, true);
+  check.boolean(message.isError, `${path}.isError`);
+  check.boolean(message.isTruncated, `${path}.isTruncated`);
+
+  let structured: StructuredResult | undefined;
+  if (check.object(message.structured, `${path}.structured`, true)) {
+    if (check.array(message.structured.errors, `${path}.structured.errors`)) {
+      message.structured.errors.forEach((error, i) => check.string(error, `${path}.structured.errors[${i}]`));
+    }
+    structured = { value: message.structured.value, errors: message.structured.errors as string[] };
+  }
+
+  return {
+    id: message.id as string,
+    parentId: message.parentId as string | null | undefined,
+    role: message.role as ChatMessage['role'],
+    text: message.text as string,
+    image: message.image as string | undefined,
+    attachments: check.array(message.attachments, `${path}.attachments`, true)
+      ? message.attachments.map((attachment, i) => readAttachment(check, attachment, `${path}.attachments[${i}]`))
+      : undefined,
+    timestamp: message.timestamp as number,
+    isError: message.isError as boolean | undefined,
+    isTruncated: message.isTruncated as boolean | undefined,
+    toolCalls: check.array(message.toolCalls, `${path}.toolCalls`, true)
+      ? message.toolCalls.map((call, i) => readToolCall(check, call, `${path}.toolCalls[${i}]`))
+      : undefined,
+    structured,
+  };
+};
+
+const readSettings = (check: Checker, settings: unknown, path: string): ChatSettings | undefined => {
+  if (!check.object(settings, path, true)) return undefined;
+  check.string(settings.model, `${path}.model`);
+  check.string(settings.systemInstruction, `${path}.systemInstruction`, true);
+  check.number(settings.temperature, `${path}.temperature`, true);
+  check.number(settings.topP, `${path}.topP`, true);
+  check.number(settings.maxOutputTokens, `${path}.maxOutputTokens`, true);
+  check.number(settings.thinkingBudget, `${path}.thinkingBudget`, true);
+
+  let responseSchema: JsonSchema | undefined;
+  if (settings.responseSchema !== undefined) {
+    try {
+      responseSchema = parseSchema(JSON.stringify(settings.responseSchema));
+    } catch (error) {
+      throw new Error(`Invalid conversation file: ${path}.responseSchema is not a usable schema. ${error instanceof Error ? error.message : ''}`.trim());
+    }
+  }
+
+  return {
+    model: settings.model as string,
+    systemInstruction: settings.systemInstruction as string | undefined,
+    temperature: settings.temperature as number | undefined,
+    topP: settings.topP as number | undefined,
+    maxOutputTokens: settings.maxOutputTokens as number | undefined,
+    thinkingBudget: settings.thinkingBudget as number | undefined,
+    responseSchema,
+  };
+};
+
+/**
+ * Parses a file written by exportConversationJson. Throws an Error with a readable
+ * message if it isn't one or its contents are malformed. Only known fields are
+ * kept, and the conversation gets a new id, so importing the same file twice
+ * doesn't overwrite the first copy.
+ */
+export const parseConversationFile = (text: string): Conversation => {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error("Invalid conversation file: it is not valid JSON.");
+  }
+
+  if (!isObject(file) || file.format !== EXPORT_FORMAT_ID) {
+    throw new Error("Invalid conversation file: it wasn't exported from this app's chat.");
+  }
+  if (typeof file.version !== 'number' || file.version > EXPORT_VERSION) {
+    throw new Error("This conversation was exported by a newer version of the app.");
+  }
+
+  const check = createChecker();
+  if (!check.object(file.conversation, 'conversation')) throw new Error("Invalid conversation file.");
+  const conversation = file.conversation;
+  check.string(conversation.title, 'conversation.title');
+  check.number(conversation.createdAt, 'conversation.createdAt', true);
+  check.boolean(conversation.pinned, 'conversation.pinned');
+  check.string(conversation.activeLeafId, 'conversation.activeLeafId', true);
+  const settings = readSettings(check, conversation.settings, 'conversation.settings');
+
+  check.array(conversation.messages, 'conversation.messages');
+  const messages = (conversation.messages as unknown[])
+    .map((message, i) => readMessage(check, message, `conversation.messages[${i}]`));
+  if (messages.length === 0) throw new Error("Invalid conversation file: the conversation has no messages.");
+
+  // The branch structure must hold together
+  const ids = new Set(messages.map(message => message.id));
+  if (ids.size !== messages.length) throw new Error("Invalid conversation file: message ids are not unique.");
+  messages.forEach((message, i) => {
+    if (message.parentId && !ids.has(message.parentId)) {
+      throw new Error(`Invalid conversation file: conversation.messages[${i}] replies to a message that isn't in the file.`);
+    }
+  });
+  const activeLeafId = conversation.activeLeafId as string | undefined;
+  if (activeLeafId && !ids.has(activeLeafId)) {
+    throw new Error("Invalid conversation file: conversation.activeLeafId doesn't match any message.");
+  }
+
+  const fresh = createConversation(messages);
+  return {
+    ...fresh,
+    title: conversation.title as string,
+    createdAt: (conversation.createdAt as number | undefined) ?? fresh.createdAt,
+    pinned: conversation.pinned as boolean | undefined,
+    settings,
+    activeLeafId,
+  };
+};
@@ -0,0 +1,82 @@
+// Thin promise wrapper around IndexedDB, shared by the local persistence stores.
+
+const DB_NAME = 'gemini-omni';
+const DB_VERSION = 2;
+
+export const CONVERSATIONS_STORE = 'conversations';
+export const IMAGES_STORE = 'images';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and on first use creates or upgrades) the app database.
+ * The connection is cached for the lifetime of the page.
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CONVERSATIONS_STORE)) {
+        db.createObjectStore(CONVERSATIONS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(IMAGES_STORE)) {
+        db.createObjectStore(IMAGES_STORE, { keyPath: 'id' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  return requestToPromise(run(tx.objectStore(storeName)));
+};
+
+export const getAllRecords = <T>(storeName: string): Promise<T[]> =>
+  withStore(storeName, 'readonly', store => store.getAll() as IDBRequest<T[]>);
+
+export const getRecord = <T>(storeName: string, key: IDBValidKey): Promise<T | undefined> =>
+  withStore(storeName, 'readonly', store => store.get(key) as IDBRequest<T | undefined>);
+
+export const putRecord = async <T>(storeName: string, value: T): Promise<void> => {
+  await withStore(storeName, 'readwrite', store => store.put(value));
+};
+
+export const deleteRecord = async (storeName: string, key: IDBValidKey): Promise<void> => {
+  await withStore(storeName, 'readwrite', store => store.delete(key));
+};
+
+export const deleteRecords = async (storeName: string, keys: IDBValidKey[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, 'readwrite');
+  const store = tx.objectStore(storeName);
+  keys.forEach(key => store.delete(key));
+
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
@@ -1,34 +1,280 @@
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { GoogleGenAI, GenerateContentResponse, GenerateContentConfig, Content, Part, FileState, Modality, FunctionCall, FunctionCallingConfigMode, Tool } from "@google/genai";
+import { ChatAttachment, ChatMessage, ChatSettings, ChatStreamEvent, ImageAspectRatio, ImageGenerationOptions, ImageResult, UploadedFile } from "../types";
+import { executeToolCall, getFunctionDeclarations, toFunctionResponse, createToolCallRecord } from "./tools";
+import { FILE_UPLOAD_TTL_MS, isAttachmentExpired } from "../utils/fileUtils";
 
-// Initialize the client once
-// API Key is strictly from process.env.API_KEY as per guidelines
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// When API_PROXY_URL is set, every request goes to the backend in server/, which
+// adds the key itself; the placeholder key below never leaves the proxy.
+const PROXY_URL = process.env.API_PROXY_URL;
+
+let client: GoogleGenAI | null = null;
+
+/**
+ * The shared client, created on first use so other providers can run without a key.
+ * API Key is strictly from process.env.API_KEY as per guidelines
+ */
+export const getAIClient = (): GoogleGenAI => {
+  if (!client) {
+    client = PROXY_URL
+      ? new GoogleGenAI({ apiKey: 'proxy', httpOptions: { baseUrl: PROXY_URL } })
+      : new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return client;
+};
 
 // Models
 const TEXT_MODEL = 'gemini-2.5-flash';
 const IMAGE_MODEL = 'gemini-2.5-flash-image'; 
+const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+
+export const CHAT_MODELS: { id: string; label: string; thinkingBudget: { min: number; max: number } }[] = [
+  { id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash', thinkingBudget: { min: 0, max: 24576 } },
+  { id: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro', thinkingBudget: { min: 128, max: 32768 } },
+  { id: 'gemini-2.5-flash-lite', label: 'Gemini 2.5 Flash-Lite', thinkingBudget: { min: 0, max: 24576 } },
+];
+
+export const DEFAULT_CHAT_SETTINGS: ChatSettings = {
+  model: TEXT_MODEL,
+};
+
+// Context budget for the chat models (all share the same limit). History is compacted once the estimate
+// crosses CONTEXT_BUDGET_RATIO of the limit, leaving room for the reply.
+const TEXT_MODEL_CONTEXT_TOKENS = 1_048_576;
+const CONTEXT_BUDGET_RATIO = 0.8;
+// Rough per-item costs used for the local token estimate.
+const CHARS_PER_TOKEN = 4;
+const TOKENS_PER_IMAGE = 258;
+const TOKENS_PER_MEDIA_FILE = 2000; // PDFs, audio and video vary widely; this is a rough middle
+// Number of most recent turns that are never summarized away.
+const MIN_RECENT_TURNS = 6;
+// Rounds of tool calls allowed in one reply before the model must answer in text.
+const MAX_TOOL_ROUNDS = 5;
+const TOOL_LIMIT_MESSAGE = `Stopped after ${MAX_TOOL_ROUNDS} rounds of tool calls without an answer. Try asking a narrower question.`;
+
+// Attachments above this size go through the Files API instead of inline data,
+// keeping the whole request under the 20 MB inline limit.
+export const MAX_INLINE_ATTACHMENT_BYTES = 4 * 1024 * 1024;
+const FILE_PROCESSING_POLL_MS = 2000;
+
+/**
+ * True when an error was caused by aborting a request through its AbortSignal.
+ */
+export const isAbortError = (error: unknown, signal?: AbortSignal): boolean =>
+  !!signal?.aborted || (error instanceof Error && error.name === 'AbortError');
+
+/**
+ * Splits a data URI into its mime type and base64 payload.
+ * Data URI format: data:[<mime type>][;charset=<charset>][;base64],<encoded data>
+ */
+export const parseDataUri = (dataUri: string): { mimeType: string; data: string } | null => {
+  const matches = dataUri.match(/^data:(.+);base64,(.+)$/);
+  if (!matches || matches.length !== 3) return null;
+  return { mimeType: matches[1], data: matches[2] };
+};
+
+const attachmentToPart = (attachment: ChatAttachment, sentAt?: number): Part => {
+  if (attachment.fileUri && !isAttachmentExpired(attachment, sentAt)) {
+    return { fileData: { fileUri: attachment.fileUri, mimeType: attachment.mimeType } };
+  }
+  const inline = attachment.data ? parseDataUri(attachment.data) : null;
+  if (inline) return { inlineData: { mimeType: attachment.mimeType, data: inline.data } };
+  // Expired uploads and files an import left behind; sending them would fail the whole request
+  return { text: `[Attached file "${attachment.name}" is no longer available.]` };
+};
+
+const attachmentsToParts = (attachments: ChatAttachment[] = [], sentAt?: number): Part[] =>
+  attachments.map(attachment => attachmentToPart(attachment, sentAt));
+
+const messageToParts = (msg: ChatMessage): Part[] => {
+  const parts: Part[] = [];
+  if (msg.image) {
+    const inline = parseDataUri(msg.image);
+    if (inline) {
+      parts.push({ inlineData: inline });
+    }
+  }
+  parts.push(...attachmentsToParts(msg.attachments, msg.timestamp));
+  if (msg.text) {
+    parts.push({ text: msg.text });
+  }
+  return parts;
+};
+
+/**
+ * Maps chat history to role-tagged contents.
+ * Error placeholders are dropped, consecutive turns from the same role are merged
+ * and leading model turns (e.g. the welcome message) are skipped, since the
+ * conversation sent to the model has to open with a user turn.
+ * Finished tool calls are replayed as functionCall / functionResponse turns ahead
+ * of the reply text, so follow-ups can refer to their results.
+ */
+export const buildConversationContents = (history: ChatMessage[]): Content[] => {
+  const contents: Content[] = [];
+
+  const append = (role: string, parts: Part[]) => {
+    if (parts.length === 0) return;
+    const last = contents[contents.length - 1];
+    if (last && last.role === role) {
+      last.parts = [...(last.parts || []), ...parts];
+    } else {
+      contents.push({ role, parts });
+    }
+  };
+
+  for (const msg of history) {
+    if (msg.isError) continue;
+    if (contents.length === 0 && msg.role === 'model') continue;
+
+    const finishedCalls = (msg.toolCalls || []).filter(call => call.result !== undefined || call.error !== undefined);
+    if (msg.role === 'model' && finishedCalls.length > 0) {
+      append('model', finishedCalls.map(call => ({ functionCall: { name: call.name, args: call.args } })));
+      append('user', finishedCalls.map(call => ({ functionResponse: toFunctionResponse(call) })));
+    }
+
+    append(msg.role, messageToParts(msg));
+  }
+
+  return contents;
+};
+
+const isToolResponseTurn = (content: Content): boolean =>
+  !!content.parts?.some(part => part.functionResponse);
+
+const estimateTokens = (contents: Content[]): number => {
+  let tokens = 0;
+  for (const content of contents) {
+    for (const part of content.parts || []) {
+      if (part.text) tokens += Math.ceil(part.text.length / CHARS_PER_TOKEN);
+      const call = part.functionCall || part.functionResponse;
+      if (call) tokens += Math.ceil(JSON.stringify(call).length / CHARS_PER_TOKEN);
+      const media = part.inlineData || part.fileData;
+      if (media) {
+        tokens += media.mimeType?.startsWith('image/') ? TOKENS_PER_IMAGE : TOKENS_PER_MEDIA_FILE;
+      }
+    }
+  }
+  return tokens;
+};
+
+/**
+ * Replaces the oldest turns with a model-written summary when the history gets
+ * close to the context limit. Falls back to dropping those turns if the summary
+ * request fails.
+ */
+const fitToContextWindow = async (contents: Content[], signal?: AbortSignal): Promise<Content[]> => {
+  const budget = TEXT_MODEL_CONTEXT_TOKENS * CONTEXT_BUDGET_RATIO;
+  if (estimateTokens(contents) <= budget) return contents;
+
+  // Keep dropping the oldest turns until the rest fits. Always cut before a user
+  // turn so the kept history still opens with one, and never between a tool call
+  // and its response.
+  let cut = 0;
+  while (
+    cut < contents.length - MIN_RECENT_TURNS &&
+    (estimateTokens(contents.slice(cut)) > budget / 2 || contents[cut].role !== 'user' || isToolResponseTurn(contents[cut]))
+  ) {
+    cut++;
+  }
+  if (cut === 0) return contents;
+
+  const older = contents.slice(0, cut);
+  const recent = contents.slice(cut);
+
+  try {
+    const response: GenerateContentResponse = await getAIClient().models.generateContent({
+      model: TEXT_MODEL,
+      contents: [
+        ...older,
+        {
+          role: 'user',
+          parts: [{ text: 'Summarize the conversation so far in a few short paragraphs. Keep facts, decisions and open questions; omit pleasantries.' }],
+        },
+      ],
+      config: { abortSignal: signal },
+    });
+    const summary = response.text;
+    if (summary) {
+      return [
+        { role: 'user', parts: [{ text: `Summary of the earlier conversation:\n${summary}` }] },
+        { role: 'model', parts: [{ text: 'Understood, I will continue from there.' }] },
+        ...recent,
+      ];
+    }
+  } catch (error) {
+    if (isAbortError(error, signal)) throw error;
+    console.error("Error summarizing conversation history:", error);
+  }
+
+  return recent;
+};
 
 /**
- * Generates text response, optionally with an image attachment (Vision).
+ * Uploads a file through the Files API so it can be referenced by URI until it
+ * expires. Videos are processed server-side before use, so this waits until the
+ * file is active.
+ */
+export const uploadAttachment = async (
+  file: File,
+  mimeType: string,
+  signal?: AbortSignal
+): Promise<UploadedFile> => {
+  try {
+    let uploaded = await getAIClient().files.upload({
+      file,
+      config: { mimeType, displayName: file.name, abortSignal: signal },
+    });
+
+    while (uploaded.state === FileState.PROCESSING && uploaded.name) {
+      await new Promise(resolve => setTimeout(resolve, FILE_PROCESSING_POLL_MS));
+      if (signal?.aborted) throw new DOMException("Upload aborted.", "AbortError");
+      uploaded = await getAIClient().files.get({ name: uploaded.name, config: { abortSignal: signal } });
+    }
+
+    if (uploaded.state === FileState.FAILED || !uploaded.uri) {
+      throw new Error(`Processing failed for ${file.name}.`);
+    }
+    const expiresAt = uploaded.expirationTime ? Date.parse(uploaded.expirationTime) : NaN;
+    return {
+      uri: uploaded.uri,
+      expiresAt: Number.isNaN(expiresAt) ? Date.now() + FILE_UPLOAD_TTL_MS : expiresAt,
+    };
+  } catch (error) {
+    if (!isAbortError(error, signal)) console.error("Error uploading file:", error);
+    throw error;
+  }
+};
+
+/**
+ * Maps chat settings to the request config, leaving unset fields to the API defaults.
+ */
+const buildGenerationConfig = (settings: ChatSettings, signal?: AbortSignal): GenerateContentConfig => ({
+  abortSignal: signal,
+  systemInstruction: settings.systemInstruction?.trim() || undefined,
+  temperature: settings.temperature,
+  topP: settings.topP,
+  maxOutputTokens: settings.maxOutputTokens,
+  thinkingConfig: settings.thinkingBudget !== undefined ? { thinkingBudget: settings.thinkingBudget } : undefined,
+  responseMimeType: settings.responseSchema ? 'application/json' : undefined,
+  responseJsonSchema: settings.responseSchema,
+});
+
+/**
+ * Generates text response, optionally with attachments (images, PDFs, audio, video, text).
  */
 export const generateText = async (
   prompt: string,
-  base64Image?: string,
-  mimeType: string = 'image/jpeg'
+  attachments: ChatAttachment[] = [],
+  settings: ChatSettings = DEFAULT_CHAT_SETTINGS,
+  signal?: AbortSignal
 ): Promise<string> => {
   try {
     let contents: any;
 
-    if (base64Image) {
-      // Multimodal request
+    if (attachments.length > 0) {
+      // Multimodal request: one part per attachment, then the prompt
       contents = {
         parts: [
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: base64Image,
-            },
-          },
+          ...attachmentsToParts(attachments),
           {
             text: prompt,
           },
@@ -39,55 +285,359 @@ export const generateText = async (
       contents = prompt;
     }
 
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: TEXT_MODEL,
+    const response: GenerateContentResponse = await getAIClient().models.generateContent({
+      model: settings.model,
       contents: contents,
+      config: buildGenerationConfig(settings, signal),
     });
 
     return response.text || "No response text generated.";
   } catch (error) {
-    console.error("Error generating text:", error);
+    if (!isAbortError(error, signal)) console.error("Error generating text:", error);
     throw error;
   }
 };
 
+const getChatTools = (): Tool[] | undefined => {
+  const functionDeclarations = getFunctionDeclarations();
+  return functionDeclarations.length > 0 ? [{ functionDeclarations }] : undefined;
+};
+
 /**
- * Generates an image based on a prompt.
- * Uses gemini-2.5-flash-image which returns the image in the response parts.
+ * Function calling can't be combined with JSON output, so tools are off in structured mode.
+ * Once the tool rounds are used up the tools stay declared, since the history refers to
+ * them, but the model is told to answer in text.
  */
-export const generateImage = async (prompt: string): Promise<string> => {
+const buildChatConfig = (settings: ChatSettings, signal?: AbortSignal, allowToolCalls: boolean = true): GenerateContentConfig => {
+  const tools = settings.responseSchema ? undefined : getChatTools();
+  return {
+    ...buildGenerationConfig(settings, signal),
+    tools,
+    toolConfig: tools && !allowToolCalls
+      ? { functionCallingConfig: { mode: FunctionCallingConfigMode.NONE } }
+      : undefined,
+  };
+};
+
+// Text of the non-thought parts; avoids the SDK's warning when a response mixes text and function calls
+const partsToText = (parts: Part[]): string =>
+  parts.filter(part => part.text && !part.thought).map(part => part.text).join('');
+
+/**
+ * Generates the next model reply for a multi-turn conversation.
+ * The full history, including earlier attachments, is sent so follow-ups keep their context.
+ * Tool calls are run locally and their results sent back until the model answers in text;
+ * after MAX_TOOL_ROUNDS it has to answer with what it has.
+ */
+export const generateChatResponse = async (
+  history: ChatMessage[],
+  settings: ChatSettings = DEFAULT_CHAT_SETTINGS,
+  signal?: AbortSignal
+): Promise<string> => {
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
+    let contents = await fitToContextWindow(buildConversationContents(history), signal);
+
+    for (let round = 0; ; round++) {
+      const canCallTools = round < MAX_TOOL_ROUNDS;
+      const response: GenerateContentResponse = await getAIClient().models.generateContent({
+        model: settings.model,
+        contents: contents,
+        config: buildChatConfig(settings, signal, canCallTools),
+      });
+
+      const parts = response.candidates?.[0]?.content?.parts || [];
+      const calls = response.functionCalls || [];
+      if (calls.length === 0 || !canCallTools) {
+        return partsToText(parts) || (canCallTools ? "No response text generated." : TOOL_LIMIT_MESSAGE);
+      }
+
+      const records = await Promise.all(calls.map(call => executeToolCall(createToolCallRecord(call), { signal })));
+      contents = [
+        ...contents,
+        { role: 'model', parts },
+        { role: 'user', parts: records.map(record => ({ functionResponse: toFunctionResponse(record) })) },
+      ];
+    }
+  } catch (error) {
+    if (!isAbortError(error, signal)) console.error("Error generating chat response:", error);
+    throw error;
+  }
+};
+
+/**
+ * Streaming variant of generateChatResponse.
+ * Yields text chunks as they arrive so the caller can render the reply while it grows,
+ * plus an event before and after each tool call the model makes along the way.
+ * Aborting the signal ends the stream; events already yielded are left to the caller.
+ */
+export async function* streamChatResponse(
+  history: ChatMessage[],
+  settings: ChatSettings = DEFAULT_CHAT_SETTINGS,
+  signal?: AbortSignal
+): AsyncGenerator<ChatStreamEvent> {
+  try {
+    let contents = await fitToContextWindow(buildConversationContents(history), signal);
+
+    for (let round = 0; ; round++) {
+      const canCallTools = round < MAX_TOOL_ROUNDS;
+      const stream = await getAIClient().models.generateContentStream({
+        model: settings.model,
+        contents: contents,
+        config: buildChatConfig(settings, signal, canCallTools),
+      });
+
+      // The whole model turn is kept so it can be sent back with the tool results
+      const modelParts: Part[] = [];
+      const calls: FunctionCall[] = [];
+      let hasText = false;
+
+      for await (const chunk of stream) {
+        // The SDK only aborts the pending fetch, so stop reading once cancelled
+        if (signal?.aborted) return;
+        const parts = chunk.candidates?.[0]?.content?.parts || [];
+        modelParts.push(...parts);
+        const text = partsToText(parts);
+        if (text) {
+          hasText = true;
+          yield { type: 'text', text };
+        }
+        calls.push(...(chunk.functionCalls || []));
+      }
+
+      if (!canCallTools && !hasText) yield { type: 'text', text: TOOL_LIMIT_MESSAGE };
+      if (calls.length === 0 || !canCallTools) return;
+
+      const responses: Part[] = [];
+      for (const call of calls) {
+        const pending = createToolCallRecord(call);
+        yield { type: 'tool-call', call: pending };
+        const record = await executeToolCall(pending, { signal });
+        if (signal?.aborted) return;
+        yield { type: 'tool-result', call: record };
+        responses.push({ functionResponse: toFunctionResponse(record) });
+      }
+
+      contents = [
+        ...contents,
+        { role: 'model', parts: modelParts },
+        { role: 'user', parts: responses },
+      ];
+    }
+  } catch (error) {
+    if (!isAbortError(error, signal)) console.error("Error streaming chat response:", error);
+    throw error;
+  }
+}
+
+export const IMAGE_STYLE_PRESETS: Record<string, { label: string; prompt: string }> = {
+  photo: { label: 'Photorealistic', prompt: 'photorealistic, natural lighting, high detail, shot on a DSLR' },
+  illustration: { label: 'Illustration', prompt: 'digital illustration, clean lines, vibrant colors' },
+  watercolor: { label: 'Watercolor', prompt: 'watercolor painting, soft edges, textured paper' },
+  anime: { label: 'Anime', prompt: 'anime style, cel shading, expressive characters' },
+  render3d: { label: '3D Render', prompt: '3D render, studio lighting, physically based materials' },
+  pixel: { label: 'Pixel Art', prompt: 'pixel art, limited palette, crisp pixels' },
+  sketch: { label: 'Pencil Sketch', prompt: 'pencil sketch, cross-hatching, monochrome' },
+};
+
+export const IMAGE_ASPECT_RATIOS: ImageAspectRatio[] = ['1:1', '3:4', '2:3', '9:16', '4:3', '3:2', '16:9', '21:9'];
+
+export const DEFAULT_IMAGE_OPTIONS: ImageGenerationOptions = {
+  aspectRatio: '1:1',
+  count: 1,
+};
+
+/**
+ * The image model has no separate style or negative prompt fields, so both are
+ * folded into the text prompt.
+ */
+const buildImagePrompt = (prompt: string, options: ImageGenerationOptions): string => {
+  let text = prompt;
+  const style = options.stylePreset && IMAGE_STYLE_PRESETS[options.stylePreset];
+  if (style) {
+    text += `\n\nStyle: ${style.prompt}.`;
+  }
+  if (options.negativePrompt?.trim()) {
+    text += `\n\nAvoid: ${options.negativePrompt.trim()}.`;
+  }
+  return text;
+};
+
+const extractImages = (response: GenerateContentResponse): string[] => {
+  const images: string[] = [];
+  for (const candidate of response.candidates || []) {
+    for (const part of candidate.content?.parts || []) {
+      if (part.inlineData && part.inlineData.data) {
+        images.push(`data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`);
+      }
+    }
+  }
+  return images;
+};
+
+/**
+ * Runs options.count image requests in parallel and collects every returned image
+ * with the seed of the request it came from. With a fixed seed each variant gets
+ * seed + index to stay reproducible.
+ */
+const requestImages = async (
+  parts: Part[],
+  options: ImageGenerationOptions,
+  signal?: AbortSignal,
+  keepSourceAspect: boolean = false
+): Promise<ImageResult[]> => {
+  const requests = Array.from({ length: Math.max(1, options.count) }, async (_, index) => {
+    const seed = options.seed !== undefined ? options.seed + index : undefined;
+    const response = await getAIClient().models.generateContent({
       model: IMAGE_MODEL,
-      contents: {
-        parts: [
-          {
-             text: prompt
-          }
-        ]
-      },
+      contents: { parts },
       config: {
-        imageConfig: {
-          aspectRatio: "1:1",
+        abortSignal: signal,
+        seed,
+        temperature: options.temperature,
+        // Edits follow the framing of the source image unless told otherwise
+        imageConfig: keepSourceAspect ? undefined : {
+          aspectRatio: options.aspectRatio,
           // imageSize not supported on flash-image, only pro-image-preview
         }
       }
     });
+    return extractImages(response).map(image => ({ image, seed }));
+  });
 
-    // Iterate to find the image part
-    if (response.candidates?.[0]?.content?.parts) {
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData && part.inlineData.data) {
-           return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
-        }
-      }
-    }
-    
+  const images = (await Promise.all(requests)).flat();
+  if (images.length === 0) {
     throw new Error("No image data found in response.");
+  }
+  return images;
+};
+
+/**
+ * Generates one or more images based on a prompt.
+ * Uses gemini-2.5-flash-image which returns the image in the response parts.
+ */
+export const generateImage = async (
+  prompt: string,
+  options: ImageGenerationOptions = DEFAULT_IMAGE_OPTIONS,
+  signal?: AbortSignal
+): Promise<ImageResult[]> => {
+  try {
+    return await requestImages([{ text: buildImagePrompt(prompt, options) }], options, signal);
+  } catch (error) {
+    if (!isAbortError(error, signal)) console.error("Error generating image:", error);
+    throw error;
+  }
+};
+
+/**
+ * Edits an existing image (image-to-image) following a text instruction,
+ * e.g. "remove the background". The source is a data URI.
+ */
+export const editImage = async (
+  sourceImage: string,
+  instruction: string,
+  options: ImageGenerationOptions = DEFAULT_IMAGE_OPTIONS,
+  signal?: AbortSignal
+): Promise<ImageResult[]> => {
+  try {
+    const inline = parseDataUri(sourceImage);
+    if (!inline) {
+      throw new Error("Source image must be a base64 data URI.");
+    }
+
+    return await requestImages(
+      [{ inlineData: inline }, { text: buildImagePrompt(instruction, options) }],
+      options,
+      signal,
+      true
+    );
+  } catch (error) {
+    if (!isAbortError(error, signal)) console.error("Error editing image:", error);
+    throw error;
+  }
+};
+
+/**
+ * Regenerates the region of an image covered by a mask (white = replace, black = keep).
+ * The model can't take a mask natively, so it is sent as a second image with
+ * instructions; callers should composite the result back onto the source with the
+ * same mask, since the model may still touch pixels outside it.
+ */
+export const inpaintImage = async (
+  sourceImage: string,
+  maskImage: string,
+  prompt: string,
+  signal?: AbortSignal
+): Promise<string> => {
+  try {
+    const source = parseDataUri(sourceImage);
+    const mask = parseDataUri(maskImage);
+    if (!source || !mask) {
+      throw new Error("Source image and mask must be base64 data URIs.");
+    }
+
+    const [{ image }] = await requestImages(
+      [
+        { inlineData: source },
+        { inlineData: mask },
+        {
+          text: `The first image is the original. The second image is a black and white mask of the same size. ` +
+            `Repaint only the white region of the mask according to this instruction: ${prompt}\n` +
+            `Leave everything in the black region unchanged and keep the original framing, lighting and style.`
+        },
+      ],
+      DEFAULT_IMAGE_OPTIONS,
+      signal,
+      true
+    );
+    return image;
   } catch (error) {
-    console.error("Error generating image:", error);
+    if (!isAbortError(error, signal)) console.error("Error inpainting image:", error);
     throw error;
   }
 };
 
-export const getAIClient = () => ai;
+/**
+ * Speaks a short sample in one of the prebuilt voices.
+ * Returns base64 16-bit PCM at 24 kHz, the same format the Live API streams.
+ */
+export const previewVoice = async (
+  voiceName: string,
+  text: string,
+  signal?: AbortSignal
+): Promise<string> => {
+  try {
+    const response = await getAIClient().models.generateContent({
+      model: TTS_MODEL,
+      contents: [{ parts: [{ text }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName } },
+        },
+        abortSignal: signal,
+      },
+    });
+    const audio = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData)?.inlineData?.data;
+    if (!audio) throw new Error("No audio returned for the voice preview.");
+    return audio;
+  } catch (error) {
+    if (!isAbortError(error, signal)) console.error("Error previewing voice:", error);
+    throw error;
+  }
+};
+
+/**
+ * Client for opening a Live session. Behind the proxy, each call fetches a
+ * single-use ephemeral token, so call it once per connection.
+ */
+export const getLiveClient = async (): Promise<GoogleGenAI> => {
+  if (!PROXY_URL) return getAIClient();
+
+  const response = await fetch(`${PROXY_URL.replace(/\/$/, '')}/live-token`, { method: 'POST' });
+  if (!response.ok) {
+    throw new Error(`Could not get a Live session token (${response.status}).`);
+  }
+  const { token } = await response.json();
+  // Ephemeral tokens are only accepted by the v1alpha API
+  return new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
+};
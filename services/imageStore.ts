@@ -0,0 +1,148 @@
+import { GeneratedImage, ImageGenerationOptions } from '../types';
+import { IMAGES_STORE, getAllRecords, getRecord, putRecord, deleteRecords } from './db';
+import { dataUriToBlob, blobToDataUri, createThumbnail, fileExtensionForMimeType } from '../utils/imageUtils';
+import { createZip, ZipEntry } from '../utils/zip';
+
+/**
+ * Shape of an image record in IndexedDB. Images are kept as Blobs rather than
+ * data URIs so they don't have to live in memory as base64 strings.
+ */
+interface StoredImage {
+  id: string;
+  blob: Blob;
+  thumbnail: Blob;
+  prompt: string;
+  timestamp: number;
+  favorite?: boolean;
+  tags: string[];
+  params?: ImageGenerationOptions;
+  kind?: GeneratedImage['kind'];
+  parentId?: string;
+}
+
+type ImageMetadata = Pick<GeneratedImage, 'favorite' | 'tags'>;
+type ImageDetails = Partial<Pick<GeneratedImage, 'params' | 'kind' | 'parentId'>>;
+
+const toGeneratedImage = (record: StoredImage): GeneratedImage => ({
+  id: record.id,
+  url: URL.createObjectURL(record.blob),
+  thumbnailUrl: URL.createObjectURL(record.thumbnail),
+  mimeType: record.blob.type,
+  prompt: record.prompt,
+  timestamp: record.timestamp,
+  favorite: record.favorite,
+  tags: record.tags,
+  params: record.params,
+  kind: record.kind,
+  parentId: record.parentId,
+});
+
+/**
+ * Releases the object URLs held by an image. Call when it leaves the UI.
+ */
+export const releaseImage = (image: GeneratedImage) => {
+  URL.revokeObjectURL(image.url);
+  URL.revokeObjectURL(image.thumbnailUrl);
+};
+
+/**
+ * Loads the gallery, newest first.
+ */
+export const listImages = async (): Promise<GeneratedImage[]> => {
+  const records = await getAllRecords<StoredImage>(IMAGES_STORE);
+  return records
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .map(toGeneratedImage);
+};
+
+/**
+ * Stores a freshly generated image (as returned by generateImage) with its thumbnail.
+ * Edits and uploads pass their kind, and edits the id of the image they came from.
+ */
+export const saveGeneratedImage = async (
+  dataUri: string,
+  prompt: string,
+  details: ImageDetails = {}
+): Promise<GeneratedImage> => {
+  const blob = dataUriToBlob(dataUri);
+  const record: StoredImage = {
+    id: `img-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    blob,
+    thumbnail: await createThumbnail(blob),
+    prompt,
+    timestamp: Date.now(),
+    tags: [],
+    ...details,
+  };
+
+  await putRecord(IMAGES_STORE, record);
+  return toGeneratedImage(record);
+};
+
+/**
+ * Reads a stored image back as a data URI, e.g. to send it to the model.
+ */
+export const getImageDataUri = async (id: string): Promise<string> => {
+  const record = await getRecord<StoredImage>(IMAGES_STORE, id);
+  if (!record) throw new Error(`Image ${id} not found.`);
+  return blobToDataUri(record.blob);
+};
+
+export const updateImageMetadata = async (id: string, metadata: ImageMetadata): Promise<void> => {
+  const record = await getRecord<StoredImage>(IMAGES_STORE, id);
+  if (!record) throw new Error(`Image ${id} not found.`);
+  await putRecord(IMAGES_STORE, { ...record, ...metadata });
+};
+
+export const deleteImages = (ids: string[]): Promise<void> =>
+  deleteRecords(IMAGES_STORE, ids);
+
+/**
+ * Case-insensitive match against the prompt and tags.
+ */
+export const matchesImageSearch = (image: GeneratedImage, query: string): boolean => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return (
+    image.prompt.toLowerCase().includes(needle) ||
+    image.tags.some(tag => tag.toLowerCase().includes(needle))
+  );
+};
+
+/**
+ * Bundles the images into a zip with a manifest.json of prompts and timestamps.
+ */
+export const exportImagesZip = async (images: GeneratedImage[]): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const manifest = [];
+
+  for (const [index, image] of images.entries()) {
+    const record = await getRecord<StoredImage>(IMAGES_STORE, image.id);
+    if (!record) continue;
+
+    const file = `${String(index + 1).padStart(3, '0')}-${image.id}.${fileExtensionForMimeType(record.blob.type)}`;
+    entries.push({
+      name: file,
+      data: new Uint8Array(await record.blob.arrayBuffer()),
+      date: new Date(record.timestamp),
+    });
+    manifest.push({
+      file,
+      prompt: record.prompt,
+      timestamp: record.timestamp,
+      createdAt: new Date(record.timestamp).toISOString(),
+      favorite: !!record.favorite,
+      tags: record.tags,
+      params: record.params,
+      kind: record.kind || 'generated',
+      parentId: record.parentId,
+    });
+  }
+
+  entries.push({
+    name: 'manifest.json',
+    data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)),
+  });
+
+  return createZip(entries);
+};
@@ -0,0 +1,82 @@
+import { LivePreset } from '../types';
+
+const PRESETS_KEY = 'gemini-omni:live-presets';
+const ACTIVE_PRESET_KEY = 'gemini-omni:active-live-preset';
+
+export const LIVE_MODELS: { id: string; label: string }[] = [
+  { id: 'gemini-2.5-flash-native-audio-preview-09-2025', label: 'Gemini 2.5 Flash Native Audio' },
+  { id: 'gemini-live-2.5-flash-preview', label: 'Gemini Live 2.5 Flash (half-cascade)' },
+  { id: 'gemini-2.0-flash-live-001', label: 'Gemini 2.0 Flash Live' },
+];
+
+export const LIVE_VOICES: { name: string; description: string }[] = [
+  { name: 'Zephyr', description: 'Bright' },
+  { name: 'Puck', description: 'Upbeat' },
+  { name: 'Charon', description: 'Informative' },
+  { name: 'Kore', description: 'Firm' },
+  { name: 'Fenrir', description: 'Excitable' },
+  { name: 'Leda', description: 'Youthful' },
+  { name: 'Orus', description: 'Firm' },
+  { name: 'Aoede', description: 'Breezy' },
+];
+
+export const LIVE_LANGUAGES: { code: string; label: string }[] = [
+  { code: '', label: 'Auto-detect' },
+  { code: 'en-US', label: 'English (US)' },
+  { code: 'en-GB', label: 'English (UK)' },
+  { code: 'es-ES', label: 'Spanish' },
+  { code: 'fr-FR', label: 'French' },
+  { code: 'de-DE', label: 'German' },
+  { code: 'it-IT', label: 'Italian' },
+  { code: 'pt-BR', label: 'Portuguese (Brazil)' },
+  { code: 'hi-IN', label: 'Hindi' },
+  { code: 'ja-JP', label: 'Japanese' },
+  { code: 'ko-KR', label: 'Korean' },
+  { code: 'cmn-CN', label: 'Mandarin Chinese' },
+];
+
+export const DEFAULT_LIVE_PRESET: LivePreset = {
+  id: 'default',
+  name: 'Default',
+  model: LIVE_MODELS[0].id,
+  voiceName: 'Zephyr',
+  languageCode: '',
+  systemInstruction: 'You are a helpful, witty, and concise AI assistant.',
+};
+
+export const createLivePreset = (name: string, base: LivePreset = DEFAULT_LIVE_PRESET): LivePreset => ({
+  ...base,
+  id: `preset-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+});
+
+/**
+ * Presets are small and read synchronously before a session starts, so they live
+ * in localStorage. The default preset is always present and listed first.
+ */
+export const loadLivePresets = (): LivePreset[] => {
+  try {
+    const raw = localStorage.getItem(PRESETS_KEY);
+    const saved: LivePreset[] = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(saved)) return [DEFAULT_LIVE_PRESET];
+    const defaultPreset = saved.find(preset => preset.id === DEFAULT_LIVE_PRESET.id);
+    return [
+      { ...DEFAULT_LIVE_PRESET, ...defaultPreset },
+      ...saved.filter(preset => preset.id !== DEFAULT_LIVE_PRESET.id),
+    ];
+  } catch (error) {
+    console.error("Failed to read Live presets:", error);
+    return [DEFAULT_LIVE_PRESET];
+  }
+};
+
+export const saveLivePresets = (presets: LivePreset[]) => {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+};
+
+export const getActiveLivePresetId = (): string =>
+  localStorage.getItem(ACTIVE_PRESET_KEY) || DEFAULT_LIVE_PRESET.id;
+
+export const setActiveLivePresetId = (id: string) => {
+  localStorage.setItem(ACTIVE_PRESET_KEY, id);
+};
@@ -0,0 +1,26 @@
+import { AIProvider } from './types';
+import {
+  generateText,
+  generateChatResponse,
+  streamChatResponse,
+  uploadAttachment,
+  generateImage,
+  editImage,
+  inpaintImage,
+  previewVoice,
+  getLiveClient
+} from '../geminiService';
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  generateText,
+  generateChatResponse,
+  streamChatResponse,
+  uploadAttachment,
+  generateImage,
+  editImage,
+  inpaintImage,
+  previewVoice,
+  connectLive: async (params) => (await getLiveClient()).live.connect(params),
+};
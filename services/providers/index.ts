@@ -0,0 +1,15 @@
+import { AIProvider } from './types';
+import { geminiProvider } from './geminiProvider';
+import { mockProvider } from './mockProvider';
+
+export type { AIProvider, LiveSession } from './types';
+
+const PROVIDERS: Record<string, AIProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+/**
+ * The backend selected at build time with AI_PROVIDER (defaults to Gemini).
+ */
+export const provider: AIProvider = PROVIDERS[process.env.AI_PROVIDER || 'gemini'] || geminiProvider;
@@ -0,0 +1,411 @@
+// Offline provider for development and demos. Output is deterministic: the same
+// input always gives the same reply, image or sound, and nothing touches the network.
+
+import { LiveServerMessage } from '@google/genai';
+import { AIProvider, LiveSession } from './types';
+import { ChatMessage, ChatSettings, ChatStreamEvent, ImageAspectRatio, JsonSchema } from '../../types';
+import { DEFAULT_IMAGE_OPTIONS } from '../geminiService';
+import { createToolCallRecord, executeToolCall } from '../tools';
+import { arrayBufferToBase64, base64ToUint8Array, computeRMS, floatToPCM16, pcm16ToFloat } from '../../utils/audioUtils';
+import { FILE_UPLOAD_TTL_MS } from '../../utils/fileUtils';
+
+const STREAM_CHUNK_DELAY_MS = 30;
+const IMAGE_LONG_SIDE = 768;
+const AUDIO_RATE = 24000;
+const SYLLABLE_SECONDS = 0.14;
+// Live turn taking: mic RMS above this is speech; this much silence ends the turn
+const VAD_RMS_THRESHOLD = 0.02;
+const VAD_SILENCE_MS = 700;
+const LIVE_CHUNK_SECONDS = 0.2;
+
+const CANNED_REPLIES = [
+  "Here's a quick take: break the problem into smaller steps, check each one, then put them back together.",
+  "Good question. In short, it depends on your constraints, but the simplest option that works is usually the right start.",
+  "I'd suggest starting with a small experiment, measuring the result, and iterating from there.",
+  "There are a few ways to look at this. The most practical is to focus on what you can change today.",
+];
+
+const CANNED_LIVE_REPLIES = [
+  "Hi there! This is the offline mock, so I can't really hear you, but the audio pipeline works.",
+  "Got it. Everything you say is being captured and sent, just not to a real model.",
+  "That's interesting. Switch the provider back to Gemini for real answers.",
+];
+
+const ARITHMETIC_PATTERN = /^[\d\s+\-*/().^%]+$/;
+
+// FNV-1a, used to pick canned output deterministically from the input
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const abortError = () => new DOMException("The operation was aborted.", "AbortError");
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError());
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(abortError());
+  }, { once: true });
+});
+
+const lastUserText = (history: ChatMessage[]): string =>
+  [...history].reverse().find(msg => msg.role === 'user')?.text.trim() || '';
+
+const cannedReply = (prompt: string): string => {
+  const quoted = prompt.length > 80 ? `${prompt.slice(0, 79)}…` : prompt;
+  return `*Mock provider, offline.*\n\nYou said: "${quoted || '(attachments only)'}"\n\n` +
+    CANNED_REPLIES[hashString(prompt) % CANNED_REPLIES.length];
+};
+
+/**
+ * A value that fits the schema, for structured output mode. Strings are filled
+ * from the prompt so different inputs give visibly different results.
+ */
+const sampleFromSchema = (schema: JsonSchema, seed: string): unknown => {
+  if (schema.enum?.length) return schema.enum[hashString(seed) % schema.enum.length];
+  if (schema.anyOf?.length) return sampleFromSchema(schema.anyOf[0], seed);
+
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(Object.entries(schema.properties || {})
+        .map(([key, child]) => [key, sampleFromSchema(child, `${seed}.${key}`)]));
+    case 'array':
+      return Array.from({ length: Math.max(schema.minItems ?? 0, Math.min(schema.maxItems ?? 2, 2)) },
+        (_, index) => sampleFromSchema(schema.items || {}, `${seed}[${index}]`));
+    case 'integer':
+    case 'number':
+      return Math.max(schema.minimum ?? 0, Math.min(schema.maximum ?? 100, hashString(seed) % 100));
+    case 'boolean':
+      return hashString(seed) % 2 === 0;
+    case 'null':
+      return null;
+    default:
+      return `${seed.split('.').pop()} (mock)`;
+  }
+};
+
+async function* streamChatResponse(
+  history: ChatMessage[],
+  settings?: ChatSettings,
+  signal?: AbortSignal
+): AsyncGenerator<ChatStreamEvent> {
+  const prompt = lastUserText(history);
+
+  if (settings?.responseSchema) {
+    const json = JSON.stringify(sampleFromSchema(settings.responseSchema, prompt || 'value'), null, 2);
+    for (const line of json.split(/(?<=\n)/)) {
+      await delay(STREAM_CHUNK_DELAY_MS, signal);
+      yield { type: 'text', text: line };
+    }
+    return;
+  }
+
+  // Arithmetic goes through the real calculator tool so tool rendering can be tried offline
+  if (prompt && ARITHMETIC_PATTERN.test(prompt) && /\d/.test(prompt)) {
+    const pending = createToolCallRecord({ name: 'calculator', args: { expression: prompt } });
+    yield { type: 'tool-call', call: pending };
+    await delay(STREAM_CHUNK_DELAY_MS * 5, signal);
+    const record = await executeToolCall(pending, { signal });
+    yield { type: 'tool-result', call: record };
+    const value = (record.result as { value?: number } | undefined)?.value;
+    yield { type: 'text', text: record.error ? `I couldn't evaluate that: ${record.error}` : `${prompt} = ${value}` };
+    return;
+  }
+
+  for (const word of cannedReply(prompt).split(/(?<=\s)/)) {
+    await delay(STREAM_CHUNK_DELAY_MS, signal);
+    yield { type: 'text', text: word };
+  }
+}
+
+// --- Images ---
+
+const createCanvas = (width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable.");
+  return [canvas, ctx];
+};
+
+const sizeForAspectRatio = (aspectRatio: ImageAspectRatio): [number, number] => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  return w >= h
+    ? [IMAGE_LONG_SIDE, Math.round(IMAGE_LONG_SIDE * h / w)]
+    : [Math.round(IMAGE_LONG_SIDE * w / h), IMAGE_LONG_SIDE];
+};
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error("Failed to load the source image."));
+  img.src = src;
+});
+
+const drawCaption = (ctx: CanvasRenderingContext2D, text: string, width: number, height: number) => {
+  const fontSize = Math.round(width / 24);
+  ctx.font = `600 ${fontSize}px system-ui, sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  // Greedy word wrap, at most four lines
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width > width * 0.8 && line) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  const shown = lines.slice(0, 4);
+  if (lines.length > 4) shown[3] += '…';
+
+  const lineHeight = fontSize * 1.3;
+  const top = height / 2 - (shown.length - 1) * lineHeight / 2;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.45)';
+  ctx.fillRect(0, top - lineHeight, width, shown.length * lineHeight + lineHeight);
+  ctx.fillStyle = 'white';
+  shown.forEach((text, i) => ctx.fillText(text, width / 2, top + i * lineHeight));
+};
+
+/**
+ * A gradient with a few circles, all derived from the seed, captioned with the prompt.
+ */
+const renderPlaceholder = (prompt: string, seed: number, aspectRatio: ImageAspectRatio): string => {
+  const [width, height] = sizeForAspectRatio(aspectRatio);
+  const [canvas, ctx] = createCanvas(width, height);
+  const hue = seed % 360;
+
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${hue}, 70%, 45%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 120) % 360}, 70%, 25%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  for (let i = 0; i < 6; i++) {
+    const h = hashString(`${seed}:${i}`);
+    ctx.fillStyle = `hsla(${(hue + (h % 90)) % 360}, 80%, 65%, 0.35)`;
+    ctx.beginPath();
+    ctx.arc(h % width, (h >>> 8) % height, 40 + (h >>> 16) % (width / 4), 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  drawCaption(ctx, prompt, width, height);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Redraws the source with a tint and the instruction as a caption.
+ */
+const renderEdit = async (sourceImage: string, instruction: string, seed: number): Promise<string> => {
+  const img = await loadImage(sourceImage);
+  const [canvas, ctx] = createCanvas(img.naturalWidth, img.naturalHeight);
+  ctx.drawImage(img, 0, 0);
+  ctx.fillStyle = `hsla(${seed % 360}, 80%, 50%, 0.25)`;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  drawCaption(ctx, instruction, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
+
+const variantSeeds = (key: string, count: number, seed?: number): number[] =>
+  Array.from({ length: Math.max(1, count) }, (_, index) =>
+    seed !== undefined ? seed + index : hashString(`${key}:${index}`));
+
+// Like the real API, only seeds the caller fixed are reported; hashed ones are internal
+const reportedSeed = (seed: number, fixedSeed?: number): number | undefined =>
+  fixedSeed !== undefined ? seed : undefined;
+
+// --- Audio ---
+
+/**
+ * Speech-like babble: one short tone per syllable with a pitch taken from the text,
+ * shaped by an envelope so it doesn't click. Returns float samples at 24 kHz.
+ */
+const synthesizeSpeech = (text: string): Float32Array => {
+  const syllables = Math.max(4, Math.ceil(text.length / 4));
+  const perSyllable = Math.round(SYLLABLE_SECONDS * AUDIO_RATE);
+  const samples = new Float32Array(syllables * perSyllable);
+
+  for (let s = 0; s < syllables; s++) {
+    const frequency = 140 + (text.charCodeAt((s * 4) % text.length) % 24) * 8;
+    for (let i = 0; i < perSyllable; i++) {
+      const t = i / AUDIO_RATE;
+      const envelope = Math.sin(Math.PI * i / perSyllable);
+      samples[s * perSyllable + i] = 0.25 * envelope * (
+        Math.sin(2 * Math.PI * frequency * t) + 0.3 * Math.sin(4 * Math.PI * frequency * t)
+      );
+    }
+  }
+  return samples;
+};
+
+const toBase64PCM = (samples: Float32Array): string => {
+  const pcm = floatToPCM16(samples);
+  return arrayBufferToBase64(new Uint8Array(pcm.buffer));
+};
+
+// --- Live ---
+
+/**
+ * A fake Live session: detects the end of each user turn (by level, or by
+ * activityEnd in push-to-talk), then answers with a canned line spoken as
+ * synthetic audio, with transcriptions, in real time.
+ */
+const connectLive: AIProvider['connectLive'] = async ({ config, callbacks }) => {
+  const manualActivity = !!config?.realtimeInputConfig?.automaticActivityDetection?.disabled;
+  let closed = false;
+  let userSpeaking = false;
+  let silenceMs = 0;
+  let turn = 0;
+  let replyTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const emit = (fields: Partial<LiveServerMessage>) => {
+    if (!closed) callbacks.onmessage(Object.assign(new LiveServerMessage(), fields));
+  };
+
+  const respond = () => {
+    if (replyTimer) return;
+    const reply = CANNED_LIVE_REPLIES[turn++ % CANNED_LIVE_REPLIES.length];
+    emit({ serverContent: { inputTranscription: { text: '(speech)' } } });
+
+    const audio = synthesizeSpeech(reply);
+    const chunkSamples = Math.round(LIVE_CHUNK_SECONDS * AUDIO_RATE);
+    const chunkCount = Math.ceil(audio.length / chunkSamples);
+    const words = reply.split(' ');
+    let index = 0;
+
+    const sendChunk = () => {
+      if (closed) return;
+      if (index >= chunkCount) {
+        replyTimer = null;
+        emit({ serverContent: { turnComplete: true } });
+        return;
+      }
+      const chunk = audio.subarray(index * chunkSamples, (index + 1) * chunkSamples);
+      // Spread the transcript over the audio
+      const from = Math.floor(index * words.length / chunkCount);
+      const to = Math.floor((index + 1) * words.length / chunkCount);
+      emit({
+        serverContent: {
+          modelTurn: { parts: [{ inlineData: { mimeType: `audio/pcm;rate=${AUDIO_RATE}`, data: toBase64PCM(chunk) } }] },
+          ...(to > from ? { outputTranscription: { text: words.slice(from, to).join(' ') + ' ' } } : {}),
+        },
+      });
+      index++;
+      replyTimer = setTimeout(sendChunk, LIVE_CHUNK_SECONDS * 1000);
+    };
+    replyTimer = setTimeout(sendChunk, 300);
+  };
+
+  const session: LiveSession = {
+    sendRealtimeInput: (params) => {
+      if (closed) return;
+      if (params.activityStart) userSpeaking = true;
+      if (params.activityEnd || (params.audioStreamEnd && userSpeaking)) {
+        userSpeaking = false;
+        respond();
+      }
+
+      const media = params.media || params.audio;
+      const mimeType = media && 'mimeType' in media ? media.mimeType : undefined;
+      const data = media && 'data' in media ? media.data : undefined;
+      if (manualActivity || !data || !mimeType?.startsWith('audio/pcm')) return;
+
+      // Server-side activity detection stand-in
+      const bytes = base64ToUint8Array(data);
+      const samples = pcm16ToFloat(new Int16Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 2));
+      const frameMs = samples.length / 16;
+      if (computeRMS(samples) > VAD_RMS_THRESHOLD) {
+        userSpeaking = true;
+        silenceMs = 0;
+      } else if (userSpeaking) {
+        silenceMs += frameMs;
+        if (silenceMs >= VAD_SILENCE_MS) {
+          userSpeaking = false;
+          silenceMs = 0;
+          respond();
+        }
+      }
+    },
+    sendToolResponse: () => {},
+    close: () => {
+      if (closed) return;
+      closed = true;
+      if (replyTimer) clearTimeout(replyTimer);
+      callbacks.onclose?.(new CloseEvent('close', { code: 1000, reason: 'Closed by client' }));
+    },
+  };
+
+  setTimeout(() => {
+    if (closed) return;
+    callbacks.onopen?.();
+    emit({ sessionResumptionUpdate: { resumable: true, newHandle: `mock-session-${Date.now()}` } });
+  }, 100);
+
+  return session;
+};
+
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  label: 'Mock (offline)',
+
+  generateText: async (prompt, _attachments, _settings, signal) => {
+    await delay(STREAM_CHUNK_DELAY_MS * 10, signal);
+    return cannedReply(prompt);
+  },
+
+  generateChatResponse: async (history, settings, signal) => {
+    let text = '';
+    for await (const event of streamChatResponse(history, settings, signal)) {
+      if (event.type === 'text') text += event.text;
+    }
+    return text;
+  },
+
+  streamChatResponse,
+
+  uploadAttachment: async (file, _mimeType, signal) => {
+    await delay(STREAM_CHUNK_DELAY_MS * 10, signal);
+    return { uri: `mock://files/${encodeURIComponent(file.name)}`, expiresAt: Date.now() + FILE_UPLOAD_TTL_MS };
+  },
+
+  generateImage: async (prompt, options = DEFAULT_IMAGE_OPTIONS, signal) => {
+    await delay(500, signal);
+    return variantSeeds(prompt, options.count, options.seed).map(seed => ({
+      image: renderPlaceholder(prompt, seed, options.aspectRatio),
+      seed: reportedSeed(seed, options.seed),
+    }));
+  },
+
+  editImage: async (sourceImage, instruction, options = DEFAULT_IMAGE_OPTIONS, signal) => {
+    await delay(500, signal);
+    return Promise.all(variantSeeds(instruction, options.count, options.seed).map(async seed => ({
+      image: await renderEdit(sourceImage, instruction, seed),
+      seed: reportedSeed(seed, options.seed),
+    })));
+  },
+
+  // The caller composites this through the mask, so a full-frame edit is enough
+  inpaintImage: async (sourceImage, _maskImage, prompt, signal) => {
+    await delay(500, signal);
+    return renderEdit(sourceImage, prompt, hashString(prompt));
+  },
+
+  previewVoice: async (voiceName, text, signal) => {
+    await delay(200, signal);
+    return toBase64PCM(synthesizeSpeech(`${voiceName} ${text}`));
+  },
+
+  connectLive,
+};
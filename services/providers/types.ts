@@ -0,0 +1,30 @@
+import type { LiveConnectParameters, Session } from '@google/genai';
+import { ChatAttachment, ChatMessage, ChatSettings, ChatStreamEvent, ImageGenerationOptions, ImageResult, UploadedFile } from '../../types';
+
+// The part of a Live session the app uses, so providers can supply their own
+export type LiveSession = Pick<Session, 'sendRealtimeInput' | 'sendToolResponse' | 'close'>;
+
+/**
+ * Everything the views need from a model backend. Images are base64 data URIs;
+ * audio is base64 16-bit PCM at 24 kHz, matching the Live API.
+ */
+export interface AIProvider {
+  id: string;
+  label: string;
+
+  // Text
+  generateText: (prompt: string, attachments?: ChatAttachment[], settings?: ChatSettings, signal?: AbortSignal) => Promise<string>;
+  generateChatResponse: (history: ChatMessage[], settings?: ChatSettings, signal?: AbortSignal) => Promise<string>;
+  streamChatResponse: (history: ChatMessage[], settings?: ChatSettings, signal?: AbortSignal) => AsyncGenerator<ChatStreamEvent>;
+  /** Returns a URI that attachments can reference instead of inline data, and when it stops working. */
+  uploadAttachment: (file: File, mimeType: string, signal?: AbortSignal) => Promise<UploadedFile>;
+
+  // Images
+  generateImage: (prompt: string, options?: ImageGenerationOptions, signal?: AbortSignal) => Promise<ImageResult[]>;
+  editImage: (sourceImage: string, instruction: string, options?: ImageGenerationOptions, signal?: AbortSignal) => Promise<ImageResult[]>;
+  inpaintImage: (sourceImage: string, maskImage: string, prompt: string, signal?: AbortSignal) => Promise<string>;
+
+  // Live audio
+  previewVoice: (voiceName: string, text: string, signal?: AbortSignal) => Promise<string>;
+  connectLive: (params: LiveConnectParameters) => Promise<LiveSession>;
+}
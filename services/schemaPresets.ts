@@ -0,0 +1,108 @@
+import { SchemaPreset } from '../types';
+
+const PRESETS_KEY = 'gemini-omni:schema-presets';
+
+export const BUILTIN_SCHEMA_PRESETS: SchemaPreset[] = [
+  {
+    id: 'builtin-contact',
+    name: 'Contact details',
+    schema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        company: { type: 'string' },
+        email: { type: 'string' },
+        phone: { type: 'string' },
+        address: { type: 'string' },
+      },
+      required: ['name'],
+    },
+  },
+  {
+    id: 'builtin-receipt',
+    name: 'Receipt',
+    schema: {
+      type: 'object',
+      properties: {
+        merchant: { type: 'string' },
+        date: { type: 'string', description: 'ISO 8601 date' },
+        currency: { type: 'string', description: 'ISO 4217 code, e.g. USD' },
+        items: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              description: { type: 'string' },
+              quantity: { type: 'number', minimum: 0 },
+              price: { type: 'number' },
+            },
+            required: ['description', 'price'],
+          },
+        },
+        total: { type: 'number' },
+      },
+      required: ['merchant', 'items', 'total'],
+    },
+  },
+  {
+    id: 'builtin-table',
+    name: 'Table rows',
+    schema: {
+      type: 'object',
+      properties: {
+        columns: { type: 'array', items: { type: 'string' } },
+        rows: { type: 'array', items: { type: 'array', items: { type: 'string' } } },
+      },
+      required: ['columns', 'rows'],
+    },
+  },
+  {
+    id: 'builtin-entities',
+    name: 'Named entities',
+    schema: {
+      type: 'object',
+      properties: {
+        entities: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              text: { type: 'string' },
+              kind: { type: 'string', enum: ['person', 'organization', 'location', 'date', 'other'] },
+            },
+            required: ['text', 'kind'],
+          },
+        },
+      },
+      required: ['entities'],
+    },
+  },
+];
+
+export const isBuiltinSchemaPreset = (id: string) => BUILTIN_SCHEMA_PRESETS.some(preset => preset.id === id);
+
+export const createSchemaPreset = (name: string, schema: SchemaPreset['schema']): SchemaPreset => ({
+  id: `schema-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  schema,
+});
+
+/**
+ * Built-in presets followed by the ones the user saved. Stored in localStorage
+ * like the Live presets, since they're small and read synchronously.
+ */
+export const loadSchemaPresets = (): SchemaPreset[] => {
+  try {
+    const raw = localStorage.getItem(PRESETS_KEY);
+    const saved: SchemaPreset[] = raw ? JSON.parse(raw) : [];
+    return Array.isArray(saved) ? [...BUILTIN_SCHEMA_PRESETS, ...saved] : BUILTIN_SCHEMA_PRESETS;
+  } catch (error) {
+    console.error("Failed to read schema presets:", error);
+    return BUILTIN_SCHEMA_PRESETS;
+  }
+};
+
+export const saveSchemaPresets = (presets: SchemaPreset[]) => {
+  const custom = presets.filter(preset => !isBuiltinSchemaPreset(preset.id));
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(custom));
+};
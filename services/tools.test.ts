@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { executeToolCall, registerTool, unregisterTool, toFunctionResponse } from './tools';
+
+describe('executeToolCall', () => {
+  it('runs the calculator tool', async () => {
+    const record = await executeToolCall({ id: 'call-1', name: 'calculator', args: { expression: '(3 + 4) * 2' } });
+    expect(record.result).toEqual({ expression: '(3 + 4) * 2', value: 14 });
+    expect(toFunctionResponse(record)).toEqual({
+      name: 'calculator',
+      response: { output: { expression: '(3 + 4) * 2', value: 14 } },
+    });
+  });
+
+  it('captures a rejected expression as the call error', async () => {
+    const record = await executeToolCall({ id: 'call-2', name: 'calculator', args: { expression: '1 / 0' } });
+    expect(record.result).toBeUndefined();
+    expect(record.error).toBe('Result is not a finite number.');
+    expect(toFunctionResponse(record).response).toEqual({ error: 'Result is not a finite number.' });
+  });
+
+  it('reports unknown tools', async () => {
+    const record = await executeToolCall({ id: 'call-3', name: 'missing', args: {} });
+    expect(record.error).toBe('Unknown tool "missing".');
+  });
+
+  it('passes the arguments through to a registered handler', async () => {
+    registerTool<{ word: string }>({
+      name: 'shout',
+      description: 'Upper-cases a word.',
+      parameters: { type: 'object', properties: { word: { type: 'string' } } },
+      handler: async ({ word }) => word.toUpperCase(),
+    });
+    try {
+      const record = await executeToolCall({ id: 'call-4', name: 'shout', args: { word: 'hi' } });
+      expect(record.result).toBe('HI');
+    } finally {
+      unregisterTool('shout');
+    }
+  });
+});
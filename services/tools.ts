@@ -0,0 +1,89 @@
+import { FunctionCall, FunctionDeclaration } from '@google/genai';
+import { ToolCallRecord } from '../types';
+import { registerBuiltinTools } from './builtinTools';
+
+export interface ToolContext {
+  signal?: AbortSignal;
+}
+
+/**
+ * A function the model can call. `parameters` is a JSON schema object describing
+ * the arguments; the handler's return value is sent back to the model as JSON.
+ */
+export interface ToolDefinition<TArgs = Record<string, unknown>> {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+  handler: (args: TArgs, context: ToolContext) => Promise<unknown>;
+}
+
+// What the registry keeps: the handler takes the model's arguments as they arrive
+export type RegisteredTool = ToolDefinition<Record<string, unknown>>;
+
+const registry = new Map<string, RegisteredTool>();
+
+export const registerTool = <TArgs>(tool: ToolDefinition<TArgs>) => {
+  registry.set(tool.name, {
+    ...tool,
+    // The model fills in arguments from `parameters`, so they're trusted to match TArgs
+    handler: (args, context) => tool.handler(args as TArgs, context),
+  });
+};
+
+export const unregisterTool = (name: string) => {
+  registry.delete(name);
+};
+
+export const getRegisteredTools = (): RegisteredTool[] => [...registry.values()];
+
+/**
+ * Declarations for every registered tool, in the shape both generateContent and
+ * the Live API expect under `tools: [{ functionDeclarations }]`.
+ */
+export const getFunctionDeclarations = (): FunctionDeclaration[] =>
+  getRegisteredTools().map(tool => ({
+    name: tool.name,
+    description: tool.description,
+    parametersJsonSchema: tool.parameters,
+  }));
+
+/**
+ * A pending record for a function call from the model. The Live API assigns call
+ * ids; generateContent does not, so one is made up for display.
+ */
+export const createToolCallRecord = (call: FunctionCall): ToolCallRecord => ({
+  id: call.id || `call-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name: call.name || 'unknown',
+  args: call.args || {},
+});
+
+/**
+ * Runs a pending call and returns the finished record. Failures are captured on
+ * the record rather than thrown so the model can see the error and recover.
+ */
+export const executeToolCall = async (record: ToolCallRecord, context: ToolContext = {}): Promise<ToolCallRecord> => {
+  const tool = registry.get(record.name);
+  if (!tool) {
+    return { ...record, error: `Unknown tool "${record.name}".` };
+  }
+
+  try {
+    return { ...record, result: await tool.handler(record.args, context) };
+  } catch (error) {
+    if (context.signal?.aborted) throw error;
+    console.error(`Error running tool ${record.name}:`, error);
+    return { ...record, error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+/**
+ * The functionResponse payload for a finished call. The API expects an object,
+ * so results are wrapped under `output` and failures under `error`.
+ * The Live API also needs the call id, which callers add.
+ */
+export const toFunctionResponse = (record: ToolCallRecord) => ({
+  name: record.name,
+  response: record.error !== undefined ? { error: record.error } : { output: record.result },
+});
+
+registerBuiltinTools(registerTool);
@@ -4,17 +4,148 @@ export enum AppView {
   LIVE = 'LIVE'
 }
 
+export interface ChatAttachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number; // Bytes
+  data?: string; // Base64 data URI, for files sent inline
+  fileUri?: string; // Files API URI, for files too large to send inline
+  fileExpiresAt?: number; // When the Files API deletes the upload; absent on older records
+}
+
+// A file stored through uploadAttachment
+export interface UploadedFile {
+  uri: string;
+  expiresAt: number;
+}
+
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  result?: unknown; // Set once the call has finished
+  error?: string; // Set instead of result when the call failed
+}
+
+// Events from a streamed chat reply
+export type ChatStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'tool-call'; call: ToolCallRecord } // The model called a tool; no result yet
+  | { type: 'tool-result'; call: ToolCallRecord }; // The same call, finished
+
 export interface ChatMessage {
   id: string;
+  parentId?: string | null; // Previous message on this branch; null for the first, absent on pre-branching records
   role: 'user' | 'model';
   text: string;
-  image?: string; // Base64 data URI
+  image?: string; // Base64 data URI; kept for messages saved before attachments existed
+  attachments?: ChatAttachment[];
   timestamp: number;
   isError?: boolean;
+  isTruncated?: boolean; // Generation was stopped before the reply finished
+  toolCalls?: ToolCallRecord[]; // Functions the model called while writing this reply
+  structured?: StructuredResult; // Set on replies written in structured output mode
+}
+
+// The subset of JSON Schema the editor, the validator and the API all understand
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  title?: string;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  enum?: (string | number | boolean | null)[];
+  format?: string;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  anyOf?: JsonSchema[];
+}
+
+export interface SchemaPreset {
+  id: string;
+  name: string;
+  schema: JsonSchema;
+}
+
+export interface StructuredResult {
+  value?: unknown; // Parsed reply; absent when it wasn't valid JSON
+  errors: string[]; // Parse errors and schema violations, empty when valid
+}
+
+export interface TranscriptEntry {
+  id: string;
+  role: 'user' | 'model';
+  text: string;
+  timestamp: number;
+  isFinal: boolean; // Set once the turn is complete; until then new text is appended
+}
+
+// Generation settings for a conversation; unset fields use the model's defaults
+export interface ChatSettings {
+  model: string;
+  systemInstruction?: string;
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  thinkingBudget?: number; // Tokens; -1 lets the model decide, 0 turns thinking off where allowed
+  responseSchema?: JsonSchema; // Structured output mode: replies are JSON matching this schema
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+  pinned?: boolean;
+  settings?: ChatSettings; // Absent on older records; DEFAULT_CHAT_SETTINGS applies
+  activeLeafId?: string; // Last message of the branch on screen; absent means the newest message
+}
+
+export type ImageAspectRatio = '1:1' | '2:3' | '3:2' | '3:4' | '4:3' | '9:16' | '16:9' | '21:9';
+
+export interface ImageGenerationOptions {
+  aspectRatio: ImageAspectRatio;
+  count: number; // Number of variants to generate
+  stylePreset?: string; // Key into IMAGE_STYLE_PRESETS
+  negativePrompt?: string;
+  seed?: number;
+  temperature?: number;
+}
+
+// One image returned by generateImage or editImage
+export interface ImageResult {
+  image: string; // Base64 data URI
+  seed?: number; // Seed of the request that produced it; absent when none was fixed
 }
 
 export interface GeneratedImage {
-  url: string;
+  id: string;
+  url: string; // Object URL of the stored full-size image
+  thumbnailUrl: string; // Object URL of the stored thumbnail
+  mimeType: string;
   prompt: string;
   timestamp: number;
+  favorite?: boolean;
+  tags: string[];
+  params?: ImageGenerationOptions; // Settings that produced the image; absent on older records
+  kind?: 'generated' | 'edit' | 'inpaint' | 'upload'; // Treated as 'generated' when absent
+  parentId?: string; // Source image of an edit
+}
+
+export interface LivePreset {
+  id: string;
+  name: string;
+  model: string;
+  voiceName: string; // Prebuilt voice
+  languageCode: string; // BCP-47 code; empty lets the model detect the language
+  systemInstruction: string;
 }
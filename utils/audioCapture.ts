@@ -0,0 +1,117 @@
+// Microphone capture on an AudioWorklet: resamples from the device rate to 16 kHz
+// and converts to PCM16 on the audio thread, posting small frames to the main thread.
+
+import { floatToPCM16, resamplePCM, PCM16_INPUT_RATE } from './audioUtils';
+
+const PROCESSOR_NAME = 'pcm16-capture';
+// 40 ms at 16 kHz; small enough for low latency without flooding the socket
+const DEFAULT_FRAME_SAMPLES = 640;
+
+export interface AudioCapture {
+  source: MediaStreamAudioSourceNode;
+  node: AudioWorkletNode;
+  stop: () => void;
+}
+
+interface CaptureOptions {
+  targetRate?: number;
+  frameSamples?: number;
+}
+
+// The pure helpers from audioUtils are inlined so the worklet and the unit-testable
+// code share one implementation. They are bound as expressions because a minifier
+// may rename the function declarations.
+const WORKLET_SOURCE = `
+const resamplePCM = (${resamplePCM.toString()});
+const floatToPCM16 = (${floatToPCM16.toString()});
+
+class PCM16CaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetRate, frameSamples } = options.processorOptions;
+    this.targetRate = targetRate;
+    this.frame = new Float32Array(frameSamples);
+    this.filled = 0;
+    this.resampler = { position: 0, history: new Float32Array(0) };
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+
+    const { output, state } = resamplePCM(channel, sampleRate, this.targetRate, this.resampler);
+    this.resampler = state;
+
+    let offset = 0;
+    while (offset < output.length) {
+      const take = Math.min(this.frame.length - this.filled, output.length - offset);
+      this.frame.set(output.subarray(offset, offset + take), this.filled);
+      this.filled += take;
+      offset += take;
+
+      if (this.filled === this.frame.length) {
+        const pcm = floatToPCM16(this.frame);
+        this.port.postMessage(pcm.buffer, [pcm.buffer]);
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PCM16CaptureProcessor);
+`;
+
+const registeredContexts = new WeakSet<BaseAudioContext>();
+
+const ensureWorkletModule = async (ctx: AudioContext) => {
+  if (registeredContexts.has(ctx)) return;
+  const url = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+    registeredContexts.add(ctx);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Starts streaming the microphone as PCM16 frames at targetRate (16 kHz by default),
+ * whatever rate the AudioContext runs at.
+ */
+export async function startAudioCapture(
+  ctx: AudioContext,
+  stream: MediaStream,
+  onFrame: (pcm: Int16Array) => void,
+  options: CaptureOptions = {}
+): Promise<AudioCapture> {
+  await ensureWorkletModule(ctx);
+
+  const source = ctx.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: {
+      targetRate: options.targetRate ?? PCM16_INPUT_RATE,
+      frameSamples: options.frameSamples ?? DEFAULT_FRAME_SAMPLES,
+    },
+  });
+
+  node.port.onmessage = (e: MessageEvent<ArrayBuffer>) => onFrame(new Int16Array(e.data));
+
+  // The node outputs silence; connecting it keeps the graph pulling audio through it
+  source.connect(node);
+  node.connect(ctx.destination);
+
+  return {
+    source,
+    node,
+    stop: () => {
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+    },
+  };
+}
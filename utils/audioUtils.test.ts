@@ -0,0 +1,202 @@
+import { describe, expect, it } from 'vitest';
+import { encodeWAV, floatToPCM16, resamplePCM, INITIAL_RESAMPLER_STATE, ResamplerState } from './audioUtils';
+import { createLiveRecorder } from './liveRecorder';
+
+const tone = (frequency: number, sampleRate: number, seconds: number): Float32Array => {
+  const samples = new Float32Array(Math.round(sampleRate * seconds));
+  for (let i = 0; i < samples.length; i++) samples[i] = Math.sin(2 * Math.PI * frequency * i / sampleRate);
+  return samples;
+};
+
+const rms = (samples: Float32Array): number =>
+  Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+
+const resampleInChunks = (input: Float32Array, inputRate: number, outputRate: number, chunkSize: number): Float32Array => {
+  const chunks: Float32Array[] = [];
+  let state: ResamplerState = INITIAL_RESAMPLER_STATE;
+  for (let offset = 0; offset < input.length; offset += chunkSize) {
+    const result = resamplePCM(input.subarray(offset, offset + chunkSize), inputRate, outputRate, state);
+    chunks.push(result.output);
+    state = result.state;
+  }
+  const output = new Float32Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+};
+
+describe('resamplePCM', () => {
+  it.each([
+    [48000, 16000],
+    [44100, 16000],
+    [16000, 24000],
+  ])('converts %i Hz to %i Hz at the rate ratio', (inputRate, outputRate) => {
+    const { output } = resamplePCM(tone(440, inputRate, 1), inputRate, outputRate);
+    // Only the filter's lookahead is held back for the next chunk
+    expect(output.length).toBeLessThanOrEqual(outputRate);
+    expect(output.length).toBeGreaterThan(outputRate * 0.99);
+  });
+
+  it('passes samples through unchanged at equal rates', () => {
+    const input = tone(440, 16000, 0.1);
+    const { output } = resamplePCM(input, 16000, 16000);
+    output.forEach((sample, index) => expect(sample).toBeCloseTo(input[index], 6));
+  });
+
+  it('gives the same output whether the input arrives in chunks or at once', () => {
+    const input = tone(1000, 48000, 0.5);
+    const { output: whole } = resamplePCM(input, 48000, 16000);
+    for (const chunkSize of [128, 441, 4096]) {
+      const chunked = resampleInChunks(input, 48000, 16000, chunkSize);
+      expect(chunked.length).toBe(whole.length);
+      chunked.forEach((sample, index) => expect(sample).toBeCloseTo(whole[index], 5));
+    }
+  });
+
+  it('keeps tones below the new Nyquist rate', () => {
+    const { output } = resamplePCM(tone(1000, 48000, 1), 48000, 16000);
+    expect(rms(output.subarray(100))).toBeCloseTo(Math.SQRT1_2, 2);
+  });
+
+  it('filters out tones above the new Nyquist rate instead of aliasing them', () => {
+    const { output } = resamplePCM(tone(12000, 48000, 1), 48000, 16000);
+    expect(rms(output.subarray(100))).toBeLessThan(0.01);
+  });
+});
+
+const readString = (view: DataView, offset: number, length: number): string =>
+  String.fromCharCode(...Array.from({ length }, (_, i) => view.getUint8(offset + i)));
+
+// Samples of one channel of a 16-bit WAV written by encodeWAV
+const readChannel = (view: DataView, channel: number): number[] => {
+  const channels = view.getUint16(22, true);
+  const frames = view.getUint32(40, true) / (channels * 2);
+  return Array.from({ length: frames }, (_, i) => view.getInt16(44 + (i * channels + channel) * 2, true));
+};
+
+describe('encodeWAV', () => {
+  it('writes the RIFF, fmt and data headers', () => {
+    const view = new DataView(encodeWAV([new Float32Array(100), new Float32Array(100)], 24000));
+
+    expect(view.byteLength).toBe(44 + 400);
+    expect(readString(view, 0, 4)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(36 + 400);
+    expect(readString(view, 8, 4)).toBe('WAVE');
+
+    expect(readString(view, 12, 4)).toBe('fmt ');
+    expect(view.getUint32(16, true)).toBe(16);
+    expect(view.getUint16(20, true)).toBe(1); // PCM
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(24000);
+    expect(view.getUint32(28, true)).toBe(24000 * 4);
+    expect(view.getUint16(32, true)).toBe(4);
+    expect(view.getUint16(34, true)).toBe(16);
+
+    expect(readString(view, 36, 4)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(400);
+  });
+
+  it('interleaves stereo frames left then right', () => {
+    const left = Float32Array.from([0.5, 0.25]);
+    const right = Float32Array.from([-0.5, -0.25]);
+    const view = new DataView(encodeWAV([left, right], 16000));
+
+    expect([0, 1, 2, 3].map(i => view.getInt16(44 + i * 2, true)))
+      .toEqual([16383, -16384, 8191, -8192]);
+  });
+
+  it('clamps samples outside [-1, 1]', () => {
+    const view = new DataView(encodeWAV([Float32Array.from([2, -2, 1, -1])], 16000));
+    expect(readChannel(view, 0)).toEqual([32767, -32768, 32767, -32768]);
+  });
+
+  it('rejects channels of different lengths', () => {
+    expect(() => encodeWAV([new Float32Array(2), new Float32Array(3)], 16000)).toThrow();
+    expect(() => encodeWAV([], 16000)).toThrow();
+  });
+});
+
+describe('createLiveRecorder', () => {
+  const RATE = 24000;
+  const constant = (value: number, length: number) => new Float32Array(length).fill(value);
+  const firstNonZero = (samples: number[]) => samples.findIndex(sample => sample !== 0);
+  const lastNonZero = (samples: number[]) => samples.length - 1 - [...samples].reverse().findIndex(sample => sample !== 0);
+  const readTracks = async (blob: Blob) => {
+    const view = new DataView(await blob.arrayBuffer());
+    return { user: readChannel(view, 0), model: readChannel(view, 1) };
+  };
+
+  it('places mic frames where they were captured and model audio where it plays', async () => {
+    let now = 10;
+    const recorder = createLiveRecorder(() => now, RATE);
+
+    recorder.addOutput(constant(0.5, RATE / 10), 10.5);
+    now = 11;
+    recorder.addInput(floatToPCM16(constant(0.25, RATE / 10)), RATE);
+
+    const { user, model } = await readTracks(recorder.exportTracks());
+    expect(firstNonZero(model)).toBe(RATE / 2);
+    expect(lastNonZero(model)).toBe(RATE / 2 + RATE / 10 - 1);
+    // The frame ended at 11 s; the resampler holds a few samples back for the next one
+    expect(lastNonZero(user)).toBe(RATE - 1);
+    expect(user.length).toBe(RATE);
+  });
+
+  it('joins mic frames that arrive with a little jitter', async () => {
+    let now = 0;
+    const recorder = createLiveRecorder(() => now, RATE);
+    const frame = floatToPCM16(constant(0.25, 2400));
+
+    now = 1;
+    recorder.addInput(frame, RATE);
+    now = 1.13; // 0.1 s of audio, reported 30 ms late
+    recorder.addInput(frame, RATE);
+
+    const { user } = await readTracks(recorder.exportTracks());
+    const start = firstNonZero(user);
+    expect(user.slice(start, lastNonZero(user) + 1).every(sample => sample !== 0)).toBe(true);
+    expect(lastNonZero(user) - start + 1).toBe(2 * 2400 - 8);
+  });
+
+  it('keeps gaps such as mute as silence', async () => {
+    let now = 0;
+    const recorder = createLiveRecorder(() => now, RATE);
+    const frame = floatToPCM16(constant(0.25, 2400));
+
+    now = 1;
+    recorder.addInput(frame, RATE);
+    now = 3;
+    recorder.addInput(frame, RATE);
+
+    const { user } = await readTracks(recorder.exportTracks());
+    expect(user[Math.round(2 * RATE)]).toBe(0);
+    expect(lastNonZero(user)).toBe(3 * RATE - 1);
+  });
+
+  it('cuts model audio off at an interruption', async () => {
+    const recorder = createLiveRecorder(() => 0, RATE);
+    recorder.addOutput(constant(0.5, RATE), 0);
+    recorder.addOutput(constant(0.5, RATE), 1);
+    recorder.truncateOutput(0.5);
+
+    const { model } = await readTracks(recorder.exportTracks());
+    expect(lastNonZero(model)).toBe(RATE / 2 - 1);
+    expect(recorder.getDuration()).toBe(0.5);
+  });
+
+  it('sums both sides into the mono mix', async () => {
+    let now = 0;
+    const recorder = createLiveRecorder(() => now, RATE);
+    recorder.addOutput(constant(0.25, RATE), 0);
+    now = 1;
+    recorder.addInput(floatToPCM16(constant(0.25, RATE)), RATE);
+
+    const view = new DataView(await recorder.exportMix().arrayBuffer());
+    expect(view.getUint16(22, true)).toBe(1);
+    const mix = readChannel(view, 0);
+    expect(mix[RATE / 2]).toBeCloseTo(0.5 * 0x7FFF, -2);
+  });
+});
@@ -38,7 +38,13 @@ export async function decodeAudioData(
   return buffer;
 }
 
-export function createPCM16Blob(data: Float32Array): { data: string; mimeType: string } {
+export const PCM16_INPUT_RATE = 16000;
+
+/**
+ * Converts float samples in [-1, 1] to 16-bit PCM.
+ * Kept self-contained: it is also inlined into the capture AudioWorklet.
+ */
+export function floatToPCM16(data: Float32Array): Int16Array {
   const l = data.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
@@ -46,8 +52,155 @@ export function createPCM16Blob(data: Float32Array): { data: string; mimeType: s
     const s = Math.max(-1, Math.min(1, data[i]));
     int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
   }
+  return int16;
+}
+
+export function encodePCM16Blob(int16: Int16Array, sampleRate: number = PCM16_INPUT_RATE): { data: string; mimeType: string } {
   return {
-    data: arrayBufferToBase64(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
+    data: arrayBufferToBase64(new Uint8Array(int16.buffer, int16.byteOffset, int16.byteLength)),
+    mimeType: `audio/pcm;rate=${sampleRate}`,
   };
-}
\ No newline at end of file
+}
+
+export interface ResamplerState {
+  // Position of the next output sample, in input samples from the start of `history`
+  position: number;
+  // Trailing input the filter still needs for the next outputs
+  history: Float32Array;
+}
+
+export const INITIAL_RESAMPLER_STATE: ResamplerState = { position: 0, history: new Float32Array(0) };
+
+/**
+ * Band-limited resampler for streamed audio: each output is a windowed-sinc
+ * interpolation of the input, with the cutoff lowered below the output's Nyquist
+ * rate when downsampling so higher frequencies are filtered out, not folded back.
+ * Outputs lag the input by the filter's half-width. Pure: pass the returned state
+ * into the next call and a chunked stream gives the same samples as one call.
+ * Kept self-contained: it is also inlined into the capture AudioWorklet.
+ */
+export function resamplePCM(
+  input: Float32Array,
+  inputRate: number,
+  outputRate: number,
+  state: ResamplerState = { position: 0, history: new Float32Array(0) }
+): { output: Float32Array; state: ResamplerState } {
+  // Filter half-width in sinc zero crossings; more is sharper but slower
+  const ZERO_CROSSINGS = 8;
+  const step = inputRate / outputRate;
+  // Cutoff in cycles per input sample, as a fraction of the input's Nyquist rate.
+  // The margin leaves room for the window's transition band below the new Nyquist.
+  const cutoff = step > 1 ? 0.9 / step : 1;
+  const halfWidth = Math.ceil(ZERO_CROSSINGS / cutoff);
+
+  const buffer = new Float32Array(state.history.length + input.length);
+  buffer.set(state.history);
+  buffer.set(input, state.history.length);
+  const n = buffer.length;
+
+  // Outputs need input up to halfWidth samples past their position
+  const count = Math.max(0, Math.ceil((n - halfWidth - state.position) / step));
+  const output = new Float32Array(count);
+
+  let position = state.position;
+  for (let i = 0; i < count; i++) {
+    const center = Math.floor(position);
+    let sum = 0;
+    let weight = 0;
+    for (let k = center - halfWidth + 1; k <= center + halfWidth; k++) {
+      const t = position - k;
+      const x = Math.PI * cutoff * t;
+      const sinc = x === 0 ? 1 : Math.sin(x) / x;
+      const window = 0.5 * (1 + Math.cos(Math.PI * t / halfWidth));
+      const h = sinc * window;
+      // Before the first sample of the stream the signal is silence
+      if (k >= 0) sum += buffer[k] * h;
+      weight += h;
+    }
+    output[i] = weight !== 0 ? sum / weight : 0;
+    position += step;
+  }
+
+  // Keep only what the next output's filter window reaches back to
+  const drop = Math.min(n, Math.max(0, Math.floor(position) - halfWidth + 1));
+  return {
+    output,
+    state: { position: position - drop, history: buffer.slice(drop) },
+  };
+}
+
+/**
+ * Root-mean-square level of a block of float samples, in [0, 1].
+ */
+export function computeRMS(samples: Float32Array): number {
+  if (samples.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return Math.sqrt(sum / samples.length);
+}
+
+/**
+ * Converts 16-bit PCM back to float samples in [-1, 1).
+ */
+export function pcm16ToFloat(int16: Int16Array): Float32Array {
+  const float32 = new Float32Array(int16.length);
+  for (let i = 0; i < int16.length; i++) {
+    float32[i] = int16[i] / 32768.0;
+  }
+  return float32;
+}
+
+/**
+ * Encodes one or more equal-length channels as a 16-bit PCM WAV file.
+ * Samples are interleaved per frame; values outside [-1, 1] are clamped.
+ */
+export function encodeWAV(channels: Float32Array[], sampleRate: number): ArrayBuffer {
+  const numChannels = channels.length;
+  if (numChannels === 0) throw new Error("At least one channel is required.");
+  const frameCount = channels[0].length;
+  if (channels.some(channel => channel.length !== frameCount)) {
+    throw new Error("All channels must have the same length.");
+  }
+
+  const bytesPerSample = 2;
+  const blockAlign = numChannels * bytesPerSample;
+  const dataSize = frameCount * blockAlign;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  // RIFF header
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+
+  // fmt chunk: uncompressed PCM
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bytesPerSample * 8, true);
+
+  // data chunk
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (let i = 0; i < frameCount; i++) {
+    for (let channel = 0; channel < numChannels; channel++) {
+      const s = Math.max(-1, Math.min(1, channels[channel][i]));
+      view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
+      offset += bytesPerSample;
+    }
+  }
+
+  return buffer;
+}
@@ -0,0 +1,26 @@
+export const copyText = (text: string): Promise<void> => navigator.clipboard.writeText(text);
+
+/**
+ * The element's HTML without its controls, such as a code block's copy button.
+ * Rendered UI that isn't content is marked with a data-copy-exclude attribute.
+ */
+export const getCopyableHtml = (element: Element): string => {
+  const clone = element.cloneNode(true) as Element;
+  clone.querySelectorAll('[data-copy-exclude]').forEach(node => node.remove());
+  return clone.innerHTML;
+};
+
+/**
+ * Copies HTML so it pastes with formatting into docs and mail, with a plain
+ * text fallback for targets that only take text. Browsers without ClipboardItem
+ * get the plain text only.
+ */
+export const copyRichText = async (html: string, plainText: string): Promise<void> => {
+  if (typeof ClipboardItem === 'undefined') return copyText(plainText);
+  await navigator.clipboard.write([
+    new ClipboardItem({
+      'text/html': new Blob([html], { type: 'text/html' }),
+      'text/plain': new Blob([plainText], { type: 'text/plain' }),
+    }),
+  ]);
+};
@@ -0,0 +1,15 @@
+// Some browsers start reading the object URL only after click() returns, so it is
+// revoked a little later instead of right away
+const REVOKE_DELAY_MS = 30_000;
+
+/**
+ * Saves a Blob through the browser's download prompt.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  window.setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
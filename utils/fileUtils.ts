@@ -0,0 +1,59 @@
+// Helpers for turning user-picked files into chat attachments
+
+import { ChatAttachment } from '../types';
+
+export type AttachmentKind = 'image' | 'pdf' | 'audio' | 'video' | 'text';
+
+// Extensions sent as plain text when the browser reports no (or a non-text) mime type
+const TEXT_EXTENSIONS = new Set([
+  'txt', 'md', 'csv', 'tsv', 'json', 'xml', 'yaml', 'yml', 'toml', 'ini', 'log',
+  'js', 'jsx', 'ts', 'tsx', 'py', 'rb', 'go', 'rs', 'java', 'kt', 'c', 'h', 'cpp', 'hpp',
+  'cs', 'php', 'swift', 'sh', 'sql', 'html', 'css', 'scss', 'vue', 'svelte',
+]);
+
+// Value for the file picker's accept attribute
+export const ATTACHMENT_ACCEPT = [
+  'image/*', 'audio/*', 'video/*', 'application/pdf', 'text/*',
+  ...Array.from(TEXT_EXTENSIONS, ext => `.${ext}`),
+].join(',');
+
+export function getAttachmentKind(mimeType: string): AttachmentKind {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType === 'application/pdf') return 'pdf';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  if (mimeType.startsWith('video/')) return 'video';
+  return 'text';
+}
+
+/**
+ * Picks the mime type to send for a file, or null if the model can't read it.
+ * Source and config files are sent as text/plain, which the API accepts for any text.
+ */
+export function resolveAttachmentMimeType(file: File): string | null {
+  const type = file.type;
+  if (/^(image|audio|video)\//.test(type) || type === 'application/pdf') return type;
+  if (type.startsWith('text/')) return 'text/plain';
+
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  return TEXT_EXTENSIONS.has(extension) ? 'text/plain' : null;
+}
+
+// How long the Files API keeps an upload before deleting it
+export const FILE_UPLOAD_TTL_MS = 48 * 60 * 60 * 1000;
+
+/**
+ * Whether a Files API upload has been deleted, so its URI can no longer be sent.
+ * Older records have no expiry; the time their message was sent stands in for the
+ * upload time. Inline attachments never expire.
+ */
+export function isAttachmentExpired(attachment: ChatAttachment, sentAt?: number, now: number = Date.now()): boolean {
+  if (!attachment.fileUri) return false;
+  const expiresAt = attachment.fileExpiresAt ?? (sentAt !== undefined ? sentAt + FILE_UPLOAD_TTL_MS : undefined);
+  return expiresAt !== undefined && expiresAt <= now;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
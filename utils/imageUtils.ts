@@ -0,0 +1,114 @@
+// Helpers for moving generated images between data URIs, Blobs and canvases
+
+import { ImageAspectRatio } from '../types';
+
+export function dataUriToBlob(dataUri: string): Blob {
+  const [header, data] = dataUri.split(',');
+  const mimeType = header.match(/^data:(.+?)(;base64)?$/)?.[1] || 'application/octet-stream';
+  const binaryString = atob(data);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+}
+
+export function blobToDataUri(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+export function fileExtensionForMimeType(mimeType: string): string {
+  switch (mimeType) {
+    case 'image/jpeg': return 'jpg';
+    case 'image/webp': return 'webp';
+    case 'image/gif': return 'gif';
+    default: return 'png';
+  }
+}
+
+function createCanvas(width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable.");
+  return [canvas, ctx];
+}
+
+/**
+ * The aspect ratio from `ratios` closest to the image's own. The image model only
+ * outputs sizes in its supported ratios, so this recovers the one it picked.
+ */
+export async function closestAspectRatio(dataUri: string, ratios: ImageAspectRatio[]): Promise<ImageAspectRatio> {
+  const bitmap = await createImageBitmap(dataUriToBlob(dataUri));
+  const actual = Math.log(bitmap.width / bitmap.height);
+  bitmap.close();
+
+  const distance = (ratio: ImageAspectRatio) => {
+    const [w, h] = ratio.split(':').map(Number);
+    return Math.abs(Math.log(w / h) - actual);
+  };
+  return ratios.reduce((best, ratio) => distance(ratio) < distance(best) ? ratio : best);
+}
+
+/**
+ * Downscales an image so its longest side is at most maxSize, encoded as JPEG.
+ */
+export async function createThumbnail(blob: Blob, maxSize: number = 256): Promise<Blob> {
+  const bitmap = await createImageBitmap(blob);
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+  const [canvas, ctx] = createCanvas(Math.round(bitmap.width * scale), Math.round(bitmap.height * scale));
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      thumb => thumb ? resolve(thumb) : reject(new Error("Failed to encode thumbnail.")),
+      'image/jpeg',
+      0.8
+    );
+  });
+}
+
+/**
+ * Blends the generated image into the original wherever the mask is white.
+ * The generated image and mask are scaled to the original's size, and the mask
+ * edge is feathered so the patch doesn't show a hard seam.
+ */
+export async function compositeWithMask(
+  originalUri: string,
+  generatedUri: string,
+  maskUri: string,
+  featherPx: number = 4
+): Promise<string> {
+  const [original, generated, mask] = await Promise.all(
+    [originalUri, generatedUri, maskUri].map(uri => createImageBitmap(dataUriToBlob(uri)))
+  );
+  const { width, height } = original;
+
+  const [, maskCtx] = createCanvas(width, height);
+  maskCtx.filter = `blur(${featherPx}px)`;
+  maskCtx.drawImage(mask, 0, 0, width, height);
+  const maskData = maskCtx.getImageData(0, 0, width, height).data;
+
+  const [patchCanvas, patchCtx] = createCanvas(width, height);
+  patchCtx.drawImage(generated, 0, 0, width, height);
+  const patch = patchCtx.getImageData(0, 0, width, height);
+  for (let i = 0; i < patch.data.length; i += 4) {
+    // Mask luminance (red channel) becomes the patch's alpha
+    patch.data[i + 3] = maskData[i];
+  }
+  patchCtx.putImageData(patch, 0, 0);
+
+  const [output, outputCtx] = createCanvas(width, height);
+  outputCtx.drawImage(original, 0, 0);
+  outputCtx.drawImage(patchCanvas, 0, 0);
+
+  [original, generated, mask].forEach(bitmap => bitmap.close());
+  return output.toDataURL('image/png');
+}
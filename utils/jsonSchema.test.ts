@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { JsonSchema } from '../types';
+import { checkStructuredReply, parseSchema, validateJson } from './jsonSchema';
+
+describe('validateJson', () => {
+  it('checks types, counting integers as numbers', () => {
+    expect(validateJson('a', { type: 'string' })).toEqual([]);
+    expect(validateJson(3, { type: 'number' })).toEqual([]);
+    expect(validateJson(3.5, { type: 'integer' })).toEqual(['$: expected integer, got number']);
+    expect(validateJson(null, { type: 'object' })).toEqual(['$: expected object, got null']);
+    expect(validateJson([], { type: 'object' })).toEqual(['$: expected object, got array']);
+  });
+
+  it('checks enum values', () => {
+    const schema: JsonSchema = { enum: ['red', 'green', null] };
+    expect(validateJson('green', schema)).toEqual([]);
+    expect(validateJson(null, schema)).toEqual([]);
+    expect(validateJson('blue', schema)).toEqual(['$: "blue" is not one of "red", "green", null']);
+  });
+
+  it('checks required and unexpected properties', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: { name: { type: 'string' } },
+      required: ['name', 'age'],
+      additionalProperties: false,
+    };
+    expect(validateJson({ name: 'Ada', extra: 1 }, schema)).toEqual([
+      '$: missing required property "age"',
+      '$: unexpected property "extra"',
+    ]);
+  });
+
+  it('reports errors in nested arrays and objects with their path', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: {
+        items: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            properties: { qty: { type: 'integer', minimum: 1 } },
+            required: ['qty'],
+          },
+        },
+      },
+    };
+    expect(validateJson({ items: [{ qty: 2 }, { qty: 0 }, {}] }, schema)).toEqual([
+      '$.items[1].qty: 0 is less than 1',
+      '$.items[2]: missing required property "qty"',
+    ]);
+    expect(validateJson({ items: [] }, schema)).toEqual(['$.items: fewer than 1 items']);
+  });
+
+  it('accepts a value matching any branch of anyOf', () => {
+    const schema: JsonSchema = { anyOf: [{ type: 'string' }, { type: 'number' }] };
+    expect(validateJson(1, schema)).toEqual([]);
+    expect(validateJson(true, schema)).toEqual(['$: does not match any of the allowed shapes']);
+  });
+
+  it('looks only at own keys, not at Object.prototype', () => {
+    const required: JsonSchema = { type: 'object', required: ['toString', 'constructor'] };
+    expect(validateJson({}, required)).toEqual([
+      '$: missing required property "toString"',
+      '$: missing required property "constructor"',
+    ]);
+
+    const closed: JsonSchema = { type: 'object', properties: { a: { type: 'string' } }, additionalProperties: false };
+    expect(validateJson(JSON.parse('{"constructor": 1, "__proto__": 2}'), closed)).toEqual([
+      '$: unexpected property "constructor"',
+      '$: unexpected property "__proto__"',
+    ]);
+  });
+});
+
+describe('parseSchema', () => {
+  it('returns a valid schema', () => {
+    expect(parseSchema('{"type": "object", "properties": {"a": {"type": "string"}}}'))
+      .toEqual({ type: 'object', properties: { a: { type: 'string' } } });
+  });
+
+  it('rejects invalid JSON and non-object schemas', () => {
+    expect(() => parseSchema('{')).toThrow('Invalid JSON');
+    expect(() => parseSchema('[]')).toThrow('The schema must be a JSON object.');
+  });
+
+  it('rejects unknown types anywhere in the schema', () => {
+    expect(() => parseSchema('{"type": "text"}')).toThrow('Unknown type "text" at $.');
+    expect(() => parseSchema('{"type": "object", "properties": {"a": {"type": "list"}}}'))
+      .toThrow('Unknown type "list" at $.a.');
+    expect(() => parseSchema('{"type": "array", "items": {"anyOf": [{"type": "date"}]}}'))
+      .toThrow('Unknown type "date" at $[].anyOf[0].');
+    expect(() => parseSchema('{"properties": {"a": 1}}')).toThrow('Expected a schema object at $.a.');
+  });
+});
+
+describe('checkStructuredReply', () => {
+  it('parses the reply and validates it', () => {
+    expect(checkStructuredReply('{"a": 1}', { type: 'object' })).toEqual({ value: { a: 1 }, errors: [] });
+    expect(checkStructuredReply('"x"', { type: 'number' })).toEqual({ value: 'x', errors: ['$: expected number, got string'] });
+  });
+
+  it('reports a reply that is not JSON', () => {
+    const result = checkStructuredReply('not json', { type: 'object' });
+    expect(result.value).toBeUndefined();
+    expect(result.errors[0]).toMatch(/^Reply is not valid JSON/);
+  });
+});
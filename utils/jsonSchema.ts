@@ -0,0 +1,141 @@
+// Validation for structured output replies. Covers the JsonSchema subset in
+// types.ts; anything else in a schema is ignored rather than rejected.
+
+import { JsonSchema, StructuredResult } from '../types';
+
+const SCHEMA_TYPES = ['object', 'array', 'string', 'number', 'integer', 'boolean', 'null'];
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string): boolean => {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+};
+
+const describe = (value: unknown): string => {
+  const text = JSON.stringify(value);
+  return text.length > 40 ? `${text.slice(0, 39)}…` : text;
+};
+
+/**
+ * Checks a value against a schema and returns one message per violation,
+ * each prefixed with the JSON path where it occurred.
+ */
+export function validateJson(value: unknown, schema: JsonSchema, path: string = '$'): string[] {
+  if (schema.anyOf) {
+    const branches = schema.anyOf.map(branch => validateJson(value, branch, path));
+    if (!branches.some(errors => errors.length === 0)) {
+      return [`${path}: does not match any of the allowed shapes`];
+    }
+  }
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    return [`${path}: expected ${schema.type}, got ${typeOf(value)}`];
+  }
+
+  const errors: string[] = [];
+
+  if (schema.enum && !schema.enum.some(option => option === value)) {
+    errors.push(`${path}: ${describe(value)} is not one of ${schema.enum.map(describe).join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: shorter than ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: longer than ${schema.maxLength} characters`);
+    }
+    if (schema.pattern) {
+      try {
+        if (!new RegExp(schema.pattern, 'u').test(value)) errors.push(`${path}: does not match /${schema.pattern}/`);
+      } catch {
+        // An invalid pattern is the schema's problem, not the reply's
+      }
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: ${value} is less than ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: ${value} is greater than ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: fewer than ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: more than ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateJson(item, schema.items!, `${path}[${index}]`)));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (!Object.prototype.hasOwnProperty.call(record, key)) errors.push(`${path}: missing required property "${key}"`);
+    }
+    for (const [key, item] of Object.entries(record)) {
+      const propertySchema = schema.properties && Object.prototype.hasOwnProperty.call(schema.properties, key)
+        ? schema.properties[key]
+        : undefined;
+      if (propertySchema) {
+        errors.push(...validateJson(item, propertySchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}: unexpected property "${key}"`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Parses schema editor text. Throws with a readable message if it isn't a usable schema.
+ */
+export function parseSchema(text: string): JsonSchema {
+  let schema: unknown;
+  try {
+    schema = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (typeOf(schema) !== 'object') throw new Error("The schema must be a JSON object.");
+
+  const checkTypes = (node: JsonSchema, path: string) => {
+    if (typeOf(node) !== 'object') throw new Error(`Expected a schema object at ${path}.`);
+    if (node.type !== undefined && !SCHEMA_TYPES.includes(node.type)) {
+      throw new Error(`Unknown type "${node.type}" at ${path}.`);
+    }
+    Object.entries(node.properties || {}).forEach(([key, child]) => checkTypes(child, `${path}.${key}`));
+    if (node.items) checkTypes(node.items, `${path}[]`);
+    node.anyOf?.forEach((child, index) => checkTypes(child, `${path}.anyOf[${index}]`));
+  };
+  checkTypes(schema as JsonSchema, '$');
+
+  return schema as JsonSchema;
+}
+
+/**
+ * Parses a structured output reply and validates it against the schema it was requested with.
+ */
+export function checkStructuredReply(text: string, schema: JsonSchema): StructuredResult {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    return { errors: [`Reply is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+  return { value, errors: validateJson(value, schema) };
+}
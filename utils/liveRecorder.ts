@@ -0,0 +1,109 @@
+// Records both sides of a Live conversation onto one timeline, for export as WAV.
+// Positions come from a single clock (the playback AudioContext's currentTime) so
+// the mic and the model line up even though they arrive at different rates.
+
+import { encodeWAV, pcm16ToFloat, resamplePCM, INITIAL_RESAMPLER_STATE, ResamplerState } from './audioUtils';
+
+// Mic frames arriving within this much of the expected position are treated as
+// contiguous, which absorbs main-thread jitter; larger gaps (mute, push-to-talk) are kept.
+const CONTIGUOUS_TOLERANCE_SECONDS = 0.1;
+
+interface Segment {
+  start: number; // In samples at the recorder's rate
+  samples: Float32Array;
+}
+
+export interface LiveRecorder {
+  sampleRate: number;
+  /** Adds a mic frame of PCM16 at inputRate, captured just now. */
+  addInput: (pcm: Int16Array, inputRate: number) => void;
+  /** Adds model audio scheduled to start playing at `startTime` on the clock. */
+  addOutput: (samples: Float32Array, startTime: number) => void;
+  /** Silences model audio from `time` on, for replies cut off by an interruption. */
+  truncateOutput: (time: number) => void;
+  /** Seconds from the start of the recording to the end of the last segment. */
+  getDuration: () => number;
+  /** Both sides summed into one mono track. */
+  exportMix: () => Blob;
+  /** Stereo file with the user on the left channel and the model on the right. */
+  exportTracks: () => Blob;
+}
+
+const renderTrack = (segments: Segment[], length: number): Float32Array => {
+  const track = new Float32Array(length);
+  for (const segment of segments) {
+    const end = Math.min(length, segment.start + segment.samples.length);
+    for (let i = Math.max(0, segment.start); i < end; i++) {
+      track[i] += segment.samples[i - segment.start];
+    }
+  }
+  return track;
+};
+
+/**
+ * Starts a recording at the clock's current time. `clock` returns seconds.
+ */
+export function createLiveRecorder(clock: () => number, sampleRate: number = 24000): LiveRecorder {
+  const startTime = clock();
+  const input: Segment[] = [];
+  const output: Segment[] = [];
+  let inputCursor = 0;
+  let resampler: ResamplerState = INITIAL_RESAMPLER_STATE;
+
+  const toSamples = (time: number) => Math.max(0, Math.round((time - startTime) * sampleRate));
+  const segmentsEnd = (segments: Segment[]) =>
+    segments.reduce((end, segment) => Math.max(end, segment.start + segment.samples.length), 0);
+  const getLength = () => Math.max(segmentsEnd(input), segmentsEnd(output));
+
+  return {
+    sampleRate,
+
+    addInput: (pcm, inputRate) => {
+      const { output: samples, state } = resamplePCM(pcm16ToFloat(pcm), inputRate, sampleRate, resampler);
+      resampler = state;
+      if (samples.length === 0) return;
+
+      // The frame ended just now, so it started one frame earlier
+      const arrival = Math.max(0, toSamples(clock()) - samples.length);
+      const start = Math.abs(arrival - inputCursor) <= CONTIGUOUS_TOLERANCE_SECONDS * sampleRate
+        ? inputCursor
+        : arrival;
+      input.push({ start, samples });
+      inputCursor = start + samples.length;
+    },
+
+    addOutput: (samples, time) => {
+      output.push({ start: toSamples(time), samples: samples.slice() });
+    },
+
+    truncateOutput: (time) => {
+      const cut = toSamples(time);
+      for (let i = output.length - 1; i >= 0; i--) {
+        const segment = output[i];
+        if (segment.start >= cut) {
+          output.splice(i, 1);
+        } else if (segment.start + segment.samples.length > cut) {
+          segment.samples = segment.samples.slice(0, cut - segment.start);
+        }
+      }
+    },
+
+    getDuration: () => getLength() / sampleRate,
+
+    exportMix: () => {
+      const length = getLength();
+      const user = renderTrack(input, length);
+      const model = renderTrack(output, length);
+      for (let i = 0; i < length; i++) user[i] += model[i];
+      return new Blob([encodeWAV([user], sampleRate)], { type: 'audio/wav' });
+    },
+
+    exportTracks: () => {
+      const length = getLength();
+      return new Blob(
+        [encodeWAV([renderTrack(input, length), renderTrack(output, length)], sampleRate)],
+        { type: 'audio/wav' }
+      );
+    },
+  };
+}
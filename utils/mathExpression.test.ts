@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateExpression } from './mathExpression';
+
+describe('evaluateExpression', () => {
+  it('applies operator precedence', () => {
+    expect(evaluateExpression('2 + 3 * 4')).toBe(14);
+    expect(evaluateExpression('10 - 4 / 2')).toBe(8);
+    expect(evaluateExpression('7 % 4 * 2')).toBe(6);
+    expect(evaluateExpression('2 * 3 ^ 2')).toBe(18);
+  });
+
+  it('evaluates left to right within a level and powers right to left', () => {
+    expect(evaluateExpression('10 - 4 - 3')).toBe(3);
+    expect(evaluateExpression('16 / 4 / 2')).toBe(2);
+    expect(evaluateExpression('2 ^ 3 ^ 2')).toBe(512);
+    expect(evaluateExpression('2 ** 10')).toBe(1024);
+  });
+
+  it('handles unary minus and plus', () => {
+    expect(evaluateExpression('-3 + 5')).toBe(2);
+    expect(evaluateExpression('4 * -2')).toBe(-8);
+    expect(evaluateExpression('--3')).toBe(3);
+    expect(evaluateExpression('+3')).toBe(3);
+    // Exponentiation binds tighter than negation, as in mathematics
+    expect(evaluateExpression('-2 ^ 2')).toBe(-4);
+    expect(evaluateExpression('2 ^ -1')).toBe(0.5);
+  });
+
+  it('groups with parentheses', () => {
+    expect(evaluateExpression('(2 + 3) * 4')).toBe(20);
+    expect(evaluateExpression('((1 + 2) * (3 + 4))')).toBe(21);
+    expect(evaluateExpression('-(2 + 3)')).toBe(-5);
+  });
+
+  it('supports functions, constants and number formats', () => {
+    expect(evaluateExpression('sqrt(16) + abs(-2)')).toBe(6);
+    expect(evaluateExpression('log(1000)')).toBeCloseTo(3);
+    expect(evaluateExpression('2 * PI')).toBeCloseTo(2 * Math.PI);
+    expect(evaluateExpression('.5 + 1.5e2')).toBe(150.5);
+  });
+
+  it('rejects division by zero and other non-finite results', () => {
+    expect(() => evaluateExpression('1 / 0')).toThrow('not a finite number');
+    expect(() => evaluateExpression('0 / 0')).toThrow('not a finite number');
+    expect(() => evaluateExpression('sqrt(-1)')).toThrow('not a finite number');
+  });
+
+  it('rejects malformed input', () => {
+    expect(() => evaluateExpression('')).toThrow('Unexpected end');
+    expect(() => evaluateExpression('2 +')).toThrow('Unexpected end');
+    expect(() => evaluateExpression('(2 + 3')).toThrow('Expected ")"');
+    expect(() => evaluateExpression('2 3')).toThrow('Unexpected "3"');
+    expect(() => evaluateExpression('2 & 3')).toThrow('Unexpected character at position 3');
+    expect(() => evaluateExpression('foo(2)')).toThrow('Unknown token "foo"');
+    expect(() => evaluateExpression('sqrt 4')).toThrow('Expected "("');
+  });
+
+  it('rejects anything that would reach into JavaScript', () => {
+    expect(() => evaluateExpression('alert(1)')).toThrow('Unknown token');
+    expect(() => evaluateExpression('constructor(1) + 1')).toThrow('Unknown token');
+    expect(() => evaluateExpression('1; 2')).toThrow('Unexpected character');
+  });
+});
@@ -0,0 +1,128 @@
+// Small arithmetic evaluator for the calculator tool. Parses the expression
+// instead of using eval, so model-supplied input can't run code.
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  ln: Math.log,
+  log: Math.log10,
+  exp: Math.exp,
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+const TOKEN_PATTERN = /\s*(\d+\.?\d*(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?|[a-z]+|\*\*|[-+*/%^(),])/iy;
+
+const tokenize = (expression: string): string[] => {
+  const tokens: string[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+  while (TOKEN_PATTERN.lastIndex < expression.length) {
+    const start = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(expression);
+    if (!match) {
+      const rest = expression.slice(start);
+      if (!rest.trim()) break;
+      const position = start + rest.length - rest.trimStart().length + 1;
+      throw new Error(`Unexpected character at position ${position}.`);
+    }
+    tokens.push(match[1].toLowerCase());
+  }
+  return tokens;
+};
+
+/**
+ * Evaluates an arithmetic expression with + - * / % ^ (or **), parentheses,
+ * the functions in FUNCTIONS and the constants pi and e.
+ * Throws on malformed input or a non-finite result.
+ */
+export function evaluateExpression(expression: string): number {
+  const tokens = tokenize(expression);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new Error(`Expected "${token}".`);
+  };
+
+  // expression := term (('+' | '-') term)*
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (peek() === '+' || peek() === '-') {
+      value = next() === '+' ? value + parseTerm() : value - parseTerm();
+    }
+    return value;
+  };
+
+  // term := unary (('*' | '/' | '%') unary)*
+  const parseTerm = (): number => {
+    let value = parseUnary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const op = next();
+      const rhs = parseUnary();
+      value = op === '*' ? value * rhs : op === '/' ? value / rhs : value % rhs;
+    }
+    return value;
+  };
+
+  // unary := ('+' | '-') unary | power
+  const parseUnary = (): number => {
+    if (peek() === '-') {
+      next();
+      return -parseUnary();
+    }
+    if (peek() === '+') {
+      next();
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  // power := primary (('^' | '**') unary)?   (right-associative)
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (peek() === '^' || peek() === '**') {
+      next();
+      return Math.pow(base, parseUnary());
+    }
+    return base;
+  };
+
+  const parsePrimary = (): number => {
+    const token = next();
+    if (token === undefined) throw new Error("Unexpected end of expression.");
+
+    if (token === '(') {
+      const value = parseExpression();
+      expect(')');
+      return value;
+    }
+    if (/^[\d.]/.test(token)) return parseFloat(token);
+    // Own keys only, so names like "constructor" don't reach Object.prototype
+    if (Object.prototype.hasOwnProperty.call(CONSTANTS, token)) return CONSTANTS[token];
+    if (Object.prototype.hasOwnProperty.call(FUNCTIONS, token)) {
+      expect('(');
+      const arg = parseExpression();
+      expect(')');
+      return FUNCTIONS[token](arg);
+    }
+    throw new Error(`Unknown token "${token}".`);
+  };
+
+  const result = parseExpression();
+  if (pos < tokens.length) throw new Error(`Unexpected "${tokens[pos]}".`);
+  if (!Number.isFinite(result)) throw new Error("Result is not a finite number.");
+  return result;
+}
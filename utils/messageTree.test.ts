@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { ChatMessage } from '../types';
+import { getLatestLeafId, getSiblingGroups, getThread } from './messageTree';
+
+const message = (id: string, parentId: string | null | undefined, role: ChatMessage['role'] = 'user'): ChatMessage =>
+  ({ id, parentId, role, text: id, timestamp: 0 });
+
+const ids = (messages: ChatMessage[]) => messages.map(msg => msg.id);
+
+// welcome ─ q1 ─ a1
+//              └ a1b (regenerated)
+//        └ q1e (edited) ─ a2 ─ q3
+const tree: ChatMessage[] = [
+  message('welcome', null, 'model'),
+  message('q1', 'welcome'),
+  message('a1', 'q1', 'model'),
+  message('a1b', 'q1', 'model'),
+  message('q1e', 'welcome'),
+  message('a2', 'q1e', 'model'),
+  message('q3', 'a2'),
+];
+
+describe('getThread', () => {
+  it('walks from the root to the given leaf', () => {
+    expect(ids(getThread(tree, 'a1'))).toEqual(['welcome', 'q1', 'a1']);
+    expect(ids(getThread(tree, 'a1b'))).toEqual(['welcome', 'q1', 'a1b']);
+    expect(ids(getThread(tree, 'q3'))).toEqual(['welcome', 'q1e', 'a2', 'q3']);
+  });
+
+  it('ends at the given message even if it has replies', () => {
+    expect(ids(getThread(tree, 'q1e'))).toEqual(['welcome', 'q1e']);
+  });
+
+  it('falls back to the last message added without a valid leaf', () => {
+    expect(ids(getThread(tree))).toEqual(['welcome', 'q1e', 'a2', 'q3']);
+    expect(ids(getThread(tree, 'deleted'))).toEqual(['welcome', 'q1e', 'a2', 'q3']);
+  });
+
+  it('treats messages without parentId as a plain list', () => {
+    const legacy = [message('m1', undefined), message('m2', undefined, 'model'), message('m3', undefined)];
+    expect(ids(getThread(legacy, 'm2'))).toEqual(['m1', 'm2']);
+    expect(ids(getThread(legacy))).toEqual(['m1', 'm2', 'm3']);
+  });
+
+  it('stops at a cycle instead of looping', () => {
+    const cyclic = [message('x', 'y'), message('y', 'x')];
+    expect(ids(getThread(cyclic, 'y'))).toEqual(['x', 'y']);
+  });
+
+  it('is empty for an empty conversation', () => {
+    expect(getThread([])).toEqual([]);
+  });
+});
+
+describe('getSiblingGroups', () => {
+  it('groups messages by parent in the order they were added', () => {
+    const groups = getSiblingGroups(tree);
+    expect(ids(groups.get('a1')!)).toEqual(['a1', 'a1b']);
+    expect(ids(groups.get('a1b')!)).toEqual(['a1', 'a1b']);
+    expect(ids(groups.get('q1')!)).toEqual(['q1', 'q1e']);
+    expect(ids(groups.get('q3')!)).toEqual(['q3']);
+    expect(ids(groups.get('welcome')!)).toEqual(['welcome']);
+  });
+
+  it('shares one group between a branch added later and its legacy siblings', () => {
+    const mixed = [message('m1', undefined), message('m2', undefined, 'model'), message('m2b', 'm1', 'model')];
+    expect(ids(getSiblingGroups(mixed).get('m2')!)).toEqual(['m2', 'm2b']);
+  });
+});
+
+describe('getLatestLeafId', () => {
+  it('follows the newest child down to a leaf', () => {
+    expect(getLatestLeafId(tree, 'welcome')).toBe('q3');
+    expect(getLatestLeafId(tree, 'q1')).toBe('a1b');
+  });
+
+  it('returns a leaf unchanged', () => {
+    expect(getLatestLeafId(tree, 'a1')).toBe('a1');
+  });
+
+  it('picks up a branch as soon as it is added', () => {
+    const withBranch = [...tree, message('a1c', 'q1', 'model')];
+    expect(getLatestLeafId(withBranch, 'q1')).toBe('a1c');
+    expect(ids(getThread(withBranch, getLatestLeafId(withBranch, 'q1')))).toEqual(['welcome', 'q1', 'a1c']);
+  });
+});
@@ -0,0 +1,63 @@
+// Chat messages form a tree: editing a prompt or regenerating a reply adds a
+// sibling instead of replacing the original. A conversation shows one path
+// through the tree, from the root down to its active leaf.
+//
+// Messages saved before branching existed have no parentId. They were a plain
+// list, so their parent is the message before them.
+
+import { ChatMessage } from '../types';
+
+const buildParentMap = (messages: ChatMessage[]): Map<string, string | null> =>
+  new Map(messages.map((msg, index) => [
+    msg.id,
+    msg.parentId !== undefined ? msg.parentId : index > 0 ? messages[index - 1].id : null
+  ]));
+
+/**
+ * The path from the root to `leafId`, oldest first. Without a leaf (or with one
+ * that no longer exists) the last message added is used.
+ */
+export const getThread = (messages: ChatMessage[], leafId?: string | null): ChatMessage[] => {
+  const byId = new Map(messages.map(msg => [msg.id, msg]));
+  const parents = buildParentMap(messages);
+  const thread: ChatMessage[] = [];
+  let current: ChatMessage | undefined = (leafId && byId.get(leafId)) || messages[messages.length - 1];
+  // The length check stops at a cycle, which only a hand-edited import could contain
+  while (current && thread.length < messages.length) {
+    thread.push(current);
+    const parentId = parents.get(current.id);
+    current = parentId ? byId.get(parentId) : undefined;
+  }
+  return thread.reverse();
+};
+
+/**
+ * Maps each message id to the messages sharing its parent, itself included, in
+ * the order they were added. Built in one pass since the view needs every group.
+ */
+export const getSiblingGroups = (messages: ChatMessage[]): Map<string, ChatMessage[]> => {
+  const parents = buildParentMap(messages);
+  const byParent = new Map<string | null, ChatMessage[]>();
+  for (const msg of messages) {
+    const parentId = parents.get(msg.id) ?? null;
+    const group = byParent.get(parentId);
+    if (group) group.push(msg);
+    else byParent.set(parentId, [msg]);
+  }
+  return new Map(messages.map(msg => [msg.id, byParent.get(parents.get(msg.id) ?? null)!]));
+};
+
+/**
+ * Follows the newest child down from `id` to a leaf, so switching to a branch
+ * reopens it where it was last continued.
+ */
+export const getLatestLeafId = (messages: ChatMessage[], id: string): string => {
+  const parents = buildParentMap(messages);
+  let leafId = id;
+  for (let depth = 0; depth < messages.length; depth++) {
+    const children = messages.filter(msg => parents.get(msg.id) === leafId);
+    if (children.length === 0) return leafId;
+    leafId = children[children.length - 1].id;
+  }
+  return leafId;
+};
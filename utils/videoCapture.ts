@@ -0,0 +1,82 @@
+// Camera and screen capture for Live sessions: samples frames from a video stream
+// at a fixed rate and encodes them as JPEG for sendRealtimeInput.
+
+// The Live API downsamples frames anyway; larger frames only cost bandwidth
+const DEFAULT_MAX_DIMENSION = 1024;
+const DEFAULT_JPEG_QUALITY = 0.7;
+
+export type VideoSource = 'camera' | 'screen';
+
+export interface VideoCapture {
+  stream: MediaStream;
+  stop: () => void;
+}
+
+interface VideoCaptureOptions {
+  framesPerSecond: number;
+  maxDimension?: number;
+  quality?: number;
+}
+
+/**
+ * Asks for the webcam or a screen/tab share. Audio is left to the microphone capture.
+ */
+export const requestVideoStream = (source: VideoSource): Promise<MediaStream> =>
+  source === 'camera'
+    ? navigator.mediaDevices.getUserMedia({ video: true })
+    : navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
+
+/**
+ * Starts sampling frames from a video stream. Each frame is scaled so its longest
+ * side is at most maxDimension and passed to onFrame as base64 JPEG (no data URI prefix).
+ * Stopping the capture also stops the stream's tracks, as does failing to start.
+ */
+export async function startVideoCapture(
+  stream: MediaStream,
+  onFrame: (base64Jpeg: string) => void,
+  options: VideoCaptureOptions
+): Promise<VideoCapture> {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = stream;
+  const canvas = document.createElement('canvas');
+  let ctx: CanvasRenderingContext2D;
+
+  try {
+    await video.play();
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error("Canvas 2D context unavailable.");
+    ctx = context;
+  } catch (error) {
+    // No capture to stop yet, so release the camera or screen share here
+    video.srcObject = null;
+    stream.getTracks().forEach(track => track.stop());
+    throw error;
+  }
+
+  const maxDimension = options.maxDimension ?? DEFAULT_MAX_DIMENSION;
+  const quality = options.quality ?? DEFAULT_JPEG_QUALITY;
+
+  const captureFrame = () => {
+    if (!video.videoWidth || !video.videoHeight) return;
+    const scale = Math.min(1, maxDimension / Math.max(video.videoWidth, video.videoHeight));
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    const dataUri = canvas.toDataURL('image/jpeg', quality);
+    onFrame(dataUri.slice(dataUri.indexOf(',') + 1));
+  };
+
+  const timer = window.setInterval(captureFrame, 1000 / options.framesPerSecond);
+
+  return {
+    stream,
+    stop: () => {
+      window.clearInterval(timer);
+      video.pause();
+      video.srcObject = null;
+      stream.getTracks().forEach(track => track.stop());
+    },
+  };
+}
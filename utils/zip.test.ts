@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, createZip } from './zip';
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(bytes('123456789'))).toBe(0xCBF43926);
+  });
+
+  it('is zero for no data', () => {
+    expect(crc32(new Uint8Array(0))).toBe(0);
+  });
+});
+
+describe('createZip', () => {
+  const date = new Date(2024, 4, 17, 13, 45, 30);
+  const entries = [
+    { name: 'a.txt', data: bytes('hello'), date },
+    { name: 'bilder/ü.png', data: bytes('png bytes'), date },
+  ];
+
+  const readArchive = async () => {
+    const buffer = await createZip(entries).arrayBuffer();
+    return { buffer, view: new DataView(buffer) };
+  };
+  const readName = (buffer: ArrayBuffer, offset: number, length: number) =>
+    new TextDecoder().decode(new Uint8Array(buffer, offset, length));
+
+  it('writes each local header followed by its name and data', async () => {
+    const { buffer, view } = await readArchive();
+    const names = entries.map(entry => bytes(entry.name));
+
+    let offset = 0;
+    entries.forEach((entry, i) => {
+      expect(view.getUint32(offset, true)).toBe(0x04034b50);
+      expect(view.getUint16(offset + 6, true)).toBe(0x0800);
+      expect(view.getUint16(offset + 8, true)).toBe(0);
+      expect(view.getUint32(offset + 14, true)).toBe(crc32(entry.data));
+      expect(view.getUint32(offset + 18, true)).toBe(entry.data.length);
+      expect(view.getUint32(offset + 22, true)).toBe(entry.data.length);
+      expect(view.getUint16(offset + 26, true)).toBe(names[i].length);
+      expect(readName(buffer, offset + 30, names[i].length)).toBe(entry.name);
+      expect(readName(buffer, offset + 30 + names[i].length, entry.data.length))
+        .toBe(new TextDecoder().decode(entry.data));
+      offset += 30 + names[i].length + entry.data.length;
+    });
+  });
+
+  it('points the central directory and end record at the right offsets', async () => {
+    const { buffer, view } = await readArchive();
+    const names = entries.map(entry => bytes(entry.name));
+    const localOffsets = [0, 30 + names[0].length + entries[0].data.length];
+    const centralOffset = localOffsets[1] + 30 + names[1].length + entries[1].data.length;
+    const centralSize = names.reduce((sum, name) => sum + 46 + name.length, 0);
+
+    const end = buffer.byteLength - 22;
+    expect(end).toBe(centralOffset + centralSize);
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 8, true)).toBe(2);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    expect(view.getUint32(end + 12, true)).toBe(centralSize);
+    expect(view.getUint32(end + 16, true)).toBe(centralOffset);
+
+    let offset = centralOffset;
+    entries.forEach((entry, i) => {
+      expect(view.getUint32(offset, true)).toBe(0x02014b50);
+      expect(view.getUint32(offset + 16, true)).toBe(crc32(entry.data));
+      expect(view.getUint32(offset + 20, true)).toBe(entry.data.length);
+      expect(view.getUint16(offset + 28, true)).toBe(names[i].length);
+      expect(view.getUint32(offset + 42, true)).toBe(localOffsets[i]);
+      expect(readName(buffer, offset + 46, names[i].length)).toBe(entry.name);
+      // The local header it points at describes the same file
+      expect(view.getUint32(localOffsets[i], true)).toBe(0x04034b50);
+      offset += 46 + names[i].length;
+    });
+  });
+
+  it('stores the modification time in DOS format', async () => {
+    const { view } = await readArchive();
+    const time = view.getUint16(10, true);
+    const day = view.getUint16(12, true);
+    expect([time >> 11, (time >> 5) & 0x3F, (time & 0x1F) * 2]).toEqual([13, 45, 30]);
+    expect([(day >> 9) + 1980, (day >> 5) & 0x0F, day & 0x1F]).toEqual([2024, 5, 17]);
+  });
+
+  it('writes only an end record for no entries', async () => {
+    const buffer = await createZip([]).arrayBuffer();
+    expect(buffer.byteLength).toBe(22);
+    expect(new DataView(buffer).getUint32(0, true)).toBe(0x06054b50);
+  });
+});